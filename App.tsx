@@ -1,10 +1,185 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Canvas, useFrame, ThreeElements } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Environment, ContactShadows } from '@react-three/drei';
+import { Canvas, useFrame, useThree, advance, addAfterEffect, ThreeElements } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, Environment, ContactShadows, TransformControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { SphereData } from './types';
-import { ArrowUpDown, Eye, EyeOff, Menu } from 'lucide-react';
+import { Axis, BlendMode, CenterStyle, CombineMode, CurvePoint, CurveSegment, DistanceMetric, FocalMotion, GradientDriver, GradientStop, MatrixConfig, MotionKind, Orientation, PhysicsSettings, Primitive, SceneSettings, SphereData } from './types';
+import { transformMatrix } from './services/geminiService';
+import { clampSetting, DEFAULT_SCENE_SETTINGS, MAX_ENGINE_CENTERS, MAX_MATRIX_DIM, MAX_PATH_POINTS, NUMERIC_RANGES, NumericSetting, withSetting } from './services/sceneSettings';
+import {
+  MOTION_KINDS,
+  MOTION_MODELS,
+  MotionPhase,
+  MotionState,
+  createFocalMotion,
+  createMotionPhase,
+  createMotionState,
+  evaluateMotion,
+  sampleMotionPath,
+} from './services/motion';
+import {
+  ScenePreset,
+  createPreset,
+  deletePresetSlot,
+  downloadPreset,
+  loadPresetSlots,
+  readPresetFile,
+  savePresetSlot,
+} from './services/presetService';
+import { decodeSceneHash, readSceneFromLocation, writeSceneToLocation } from './services/urlState';
+import {
+  ANIMATABLE_PARAMS,
+  AnimatableParam,
+  DEFAULT_TIMELINE,
+  EASINGS,
+  Easing,
+  Timeline,
+  advancePlayhead,
+  applyTimeline,
+  removeKeyframe,
+  removeTrack,
+  setKeyframe,
+  updateKeyframe,
+} from './services/timeline';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FPS,
+  EXPORT_RESOLUTIONS,
+  ExportOptions,
+  createFrameSink,
+  exportFileName,
+  exportLimitMessage,
+} from './services/frameExport';
+import { downloadBlob } from './services/download';
+import {
+  DEFAULT_MESH_EXPORT_OPTIONS,
+  exportMesh,
+  InstanceSnapshot,
+  MESH_EXPORT_FORMATS,
+  MeshExportOptions,
+  meshExportFileName,
+  supportsUnion,
+} from './services/meshExport';
+import {
+  DEFAULT_POINT_CLOUD_OPTIONS,
+  encodePointCloud,
+  fitToLattice,
+  POINT_CLOUD_FPS,
+  PointCloudOptions,
+  pointCloudFileName,
+  PointFrame,
+  readPointCloudFile,
+} from './services/pointCloud';
+import { createHistory, EditHistory, EditState, jumpHistory, pushHistory } from './services/history';
+import { createPhysicsBodies, createPhysicsSettings, forceLutOf, PHYSICS_RANGES, PhysicsBodies, stepPhysics } from './services/physics';
+import { CommandMatch, HUE_NUDGE, PaletteCommand, searchCommands, SHIFT_NUDGE, SHORTCUTS, SPEED_NUDGE } from './services/commands';
+import { createRandom, deriveSeed, MAX_SEED, rerollSeed } from './services/random';
+import {
+  applyContactShadowDepth,
+  applyFieldShader,
+  applyInstanceAlpha,
+  axisIndex,
+  combineIndex,
+  createFieldUniforms,
+  driverIndex,
+  metricIndex,
+  orientationIndex,
+} from './services/fieldShader';
+import {
+  GRADIENT_DRIVERS,
+  GRADIENT_PALETTES,
+  gradientCss,
+  hsvToRgb,
+  MAX_GRADIENT_STOPS,
+  sampleGradient,
+  sortStops,
+  stopCss,
+  twoHueStops,
+} from './services/gradient';
+import { createPrimitiveGeometry, loadGlbGeometry, ORIENTATIONS, PRIMITIVES } from './services/primitives';
+import { generateLattice, LATTICE_LAYOUTS, LINK_FACTOR, neighborSegments } from './services/lattice';
+import {
+  classicCurve,
+  CURVE_PRESETS,
+  CURVE_SEGMENTS,
+  generateScaleLUT,
+  insertPoint,
+  MAX_CURVE_POINTS,
+  sampleCurve,
+  toClassic,
+} from './services/curve';
+import {
+  AXES,
+  COMBINE_MODES,
+  createFieldWorker,
+  DISTANCE_METRICS,
+  evaluateField,
+  FieldFrame,
+  FieldLattice,
+  FieldWorkerClient,
+  metricMaxDist,
+} from './services/field';
+import {
+  governQuality,
+  GovernorState,
+  INITIAL_GOVERNOR,
+  PERF_SAMPLE_MS,
+  PerfSample,
+  QUALITY_TARGETS,
+  QUALITY_TIERS,
+  QualityTier,
+} from './services/quality';
+import {
+  applyAudioModulation,
+  AUDIO_BANDS,
+  AUDIO_TARGETS,
+  AudioInput,
+  AudioMapping,
+  AudioSettings,
+  AudioSource,
+  AudioTarget,
+  createAudioMapping,
+  DEFAULT_AUDIO_SETTINGS,
+  formatHz,
+  hzToPosition,
+  openAudioFile,
+  openMicrophone,
+  positionToHz,
+  sampleAudio,
+} from './services/audio';
+import {
+  ArrowUpDown,
+  Clock,
+  Dices,
+  Download,
+  Eye,
+  EyeOff,
+  Film,
+  Gauge,
+  History,
+  Link,
+  Loader2,
+  Menu,
+  Mic,
+  Minus,
+  Music,
+  Pause,
+  Pin,
+  PinOff,
+  Play,
+  Plus,
+  Redo2,
+  Repeat,
+  RotateCcw,
+  Save,
+  SkipBack,
+  Sparkles,
+  Square,
+  Trash2,
+  Undo2,
+  Upload,
+  X,
+} from 'lucide-react';
 
 // Properly augment the JSX namespace to include React Three Fiber elements.
 // This ensures that tags like <mesh>, <group>, <sphereGeometry>, etc., are recognized.
@@ -14,165 +189,304 @@ declare global {
   }
 }
 
-const GRID_SIZE = 12;
-const INITIAL_SPACING = 1.2;
 const LUT_SIZE = 256;
-const MAX_ENGINE_CENTERS = 3;
+const GRADIENT_SIZE = 256;
 
 // Define a proper interface for the visual configuration to replace 'any' types.
 interface SceneConfig {
+  /** Field edge for the active metric and axis scales. */
   maxDist: number;
+  metric: DistanceMetric;
+  metricAxis: Axis;
+  axisScale: [number, number, number];
+  combineMode: CombineMode;
+  /** Smooth-min radius as a fraction of a center's reach. */
+  blendRadius: number;
+  negativeCenters: boolean[];
+  /** Reach multiplier per engine center. */
+  radii: number[];
   opacity: number;
+  /** LUT_SIZE scales per engine center, strength applied. */
   lut: Float32Array;
   minScale: number;
   maxScale: number;
   tintColor: THREE.Color;
   tintColor2: THREE.Color;
+  /** GRADIENT_SIZE RGBA colors per engine center. */
+  gradient: Float32Array;
+  gradientDriver: GradientDriver;
+  orientation: Orientation;
+  stretch: number;
 }
 
 const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
 
-const hsvToRgb = (h: number, s: number, v: number) => {
-  const i = Math.floor(h * 6);
-  const f = h * 6 - i;
-  const p = v * (1 - s);
-  const q = v * (1 - f * s);
-  const t = v * (1 - (1 - f) * s);
-  switch (i % 6) {
-    case 0: return { r: v, g: t, b: p };
-    case 1: return { r: q, g: v, b: p };
-    case 2: return { r: p, g: v, b: t };
-    case 3: return { r: p, g: q, b: v };
-    case 4: return { r: t, g: p, b: v };
-    case 5: return { r: v, g: p, b: q };
-    default: return { r: v, g: t, b: p };
-  }
-};
+/** Fixed step of the focal motion simulation; 24, 30 and 60 fps frames are whole multiples. */
+const MOTION_STEP = 1 / 240;
+// Longest stretch (a hitch or background tab) the motion catches up on in one frame
+const MAX_MOTION_CATCH_UP = 0.25;
+
+/** Interval between audio level samples, which drive the sculpt through React state. */
+const AUDIO_SAMPLE_MS = 1000 / 30;
+
+/** Quiet time after the last change before it is recorded as an undo step. */
+const HISTORY_SETTLE_MS = 300;
 
-const cubicBezierCoord = (t: number, p0: number, p1: number, p2: number, p3: number) => {
-  const cx = 3 * (p1 - p0);
-  const bx = 3 * (p2 - p1) - cx;
-  const ax = p3 - p0 - cx - bx;
-  return ax * Math.pow(t, 3) + bx * Math.pow(t, 2) + cx * t + p0;
+// Identifies the generated lattice; the seed only matters to the Poisson fill
+const latticeKeyOf = ({ rows, cols, layers, spacing, layout }: MatrixConfig, seed: number) =>
+  `${cols}x${rows}x${layers}x${spacing}x${layout}x${layout === 'poisson' ? seed : 0}`;
+
+// Fully saturated color for a hue in degrees
+const hueColor = (hue: number) => {
+  const { r, g, b } = hsvToRgb(hue / 360, 1, 1);
+  return new THREE.Color(r, g, b);
 };
 
 /**
- * Samples a cubic Bezier defined by (0,startY)-(p1x,p1y)-(p2x,p2y)-(1,endY) at a normalized x (u).
- * Uses a binary search on t since x(t) is monotonic when p1x <= p2x.
+ * Half-size of the lattice volume along each axis, used to bound focal point motion.
  */
-const sampleBezierY = (
-  u: number,
-  p1x: number,
-  p1y: number,
-  p2x: number,
-  p2y: number,
-  startY: number,
-  endY: number
-) => {
-  const targetX = clamp01(u);
-  let low = 0;
-  let high = 1;
-  let t = targetX;
-
-  for (let i = 0; i < 24; i++) {
-    const mid = (low + high) / 2;
-    const x = cubicBezierCoord(mid, 0, p1x, p2x, 1);
-    if (Math.abs(x - targetX) < 1e-4) {
-      t = mid;
-      break;
-    }
-    if (x < targetX) {
-      low = mid;
-    } else {
-      high = mid;
-    }
-    t = mid;
-  }
-
-  return cubicBezierCoord(t, startY, p1y, p2y, endY);
-};
+const getMatrixBounds = ({ rows, cols, layers, spacing }: MatrixConfig) =>
+  new THREE.Vector3(cols * spacing / 2, rows * spacing / 2, layers * spacing / 2);
 
 /**
- * Generates a lookup table for sphere scales.
- * Maps distance to a scale value between minScale and maxScale.
+ * Deterministic starting position for focal point `index` within the given half-size box.
  */
-const generateScaleLUT = (
-  p1x: number,
-  p1y: number,
-  p2x: number,
-  p2y: number,
-  startY: number,
-  endY: number,
-  minScale: number,
-  maxScale: number
-) => {
-  const lut = new Float32Array(LUT_SIZE);
-  
-  for (let i = 0; i < LUT_SIZE; i++) {
-    const t = i / (LUT_SIZE - 1);
-    const normalizedVal = sampleBezierY(t, p1x, p1y, p2x, p2y, startY, endY);
-    // Map 0-1 range to user-defined min/max bounds
-    lut[i] = minScale + normalizedVal * (maxScale - minScale);
-  }
-  return lut;
+const seedFocalPoint = (seed: number, index: number, bound: THREE.Vector3) => {
+  const random = createRandom(deriveSeed(seed, 'focal', index));
+  return new THREE.Vector3(
+    (random() - 0.5) * bound.x,
+    (random() - 0.5) * bound.y,
+    (random() - 0.5) * bound.z
+  );
 };
 
-function generateInitialSpheres(spacing: number): SphereData[] {
-  const spheres: SphereData[] = [];
-  const offset = (GRID_SIZE - 1) * spacing / 2;
-
-  for (let x = 0; x < GRID_SIZE; x++) {
-    for (let y = 0; y < GRID_SIZE; y++) {
-      for (let z = 0; z < GRID_SIZE; z++) {
-        spheres.push({
-          id: `sphere-${x}-${y}-${z}`,
-          position: [x * spacing - offset, y * spacing - offset, z * spacing - offset],
-          color: '#ffffff',
-          scale: 1, 
-        });
-      }
+const isVec3 = (v: unknown): v is [number, number, number] =>
+  Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+
+/**
+ * Merges partial sphere updates (e.g. from the AI sculptor) into the current spheres by id.
+ * Malformed fields are ignored so a bad response can never corrupt the lattice.
+ */
+function applySphereUpdates(spheres: SphereData[], updates: Partial<SphereData>[]): SphereData[] {
+  const byId = new Map<string, Partial<SphereData>>();
+  updates.forEach(update => {
+    if (typeof update.id === 'string') {
+      byId.set(update.id, { ...byId.get(update.id), ...update });
     }
-  }
-  return spheres;
+  });
+  if (byId.size === 0) return spheres;
+
+  return spheres.map(sphere => {
+    const update = byId.get(sphere.id);
+    if (!update) return sphere;
+    return {
+      ...sphere,
+      position: isVec3(update.position) ? update.position : sphere.position,
+      color: typeof update.color === 'string' ? update.color : sphere.color,
+      scale: typeof update.scale === 'number' && Number.isFinite(update.scale) ? Math.max(0, update.scale) : sphere.scale,
+    };
+  });
 }
 
 const BASE_WHITE = new THREE.Color('#ffffff');
 
-type BlendMode = 'normal' | 'additive';
-
 const BLEND_MAP: Record<BlendMode, THREE.Blending> = {
   normal: THREE.NormalBlending,
   additive: THREE.AdditiveBlending,
 };
 
+// Each sphere's height within the lattice and its place in grid order, both 0-1
+const gradientCoords = (spheres: SphereData[]) => {
+  const coords = new Float32Array(spheres.length * 2);
+  let minY = Infinity;
+  let maxY = -Infinity;
+  spheres.forEach(({ position }) => {
+    minY = Math.min(minY, position[1]);
+    maxY = Math.max(maxY, position[1]);
+  });
+  const span = maxY - minY;
+  spheres.forEach(({ position }, i) => {
+    coords[i * 2] = span > 0 ? (position[1] - minY) / span : 0;
+    coords[i * 2 + 1] = spheres.length > 1 ? i / (spheres.length - 1) : 0;
+  });
+  return coords;
+};
+
+/**
+ * Reads back the instances exactly as the current frame shows them, for geometry export.
+ */
+interface InstanceSnapshotHandle {
+  snapshot: () => InstanceSnapshot | null;
+}
+
+/**
+ * Per-sphere field readout for data export, evaluated on the CPU from the current focal state.
+ */
+interface FieldSamplerHandle {
+  sample: () => Pick<PointFrame, 'scales' | 'distances' | 'colors'>;
+}
+
+// Static field inputs for a lattice. Spheres left at the default white follow the tint gradient; any other color is an explicit override.
+const packLattice = (baseSpheres: SphereData[]): FieldLattice => {
+  const count = baseSpheres.length;
+  const packed: FieldLattice = {
+    count,
+    positions: new Float64Array(count * 3),
+    scales: new Float64Array(count),
+    colors: new Float32Array(count * 3),
+    tinted: new Uint8Array(count),
+    gradientCoords: gradientCoords(baseSpheres),
+  };
+  const color = new THREE.Color();
+  baseSpheres.forEach((s, i) => {
+    packed.positions.set(s.position, i * 3);
+    packed.scales[i] = s.scale;
+    color.set(s.color);
+    color.toArray(packed.colors, i * 3);
+    packed.tinted[i] = color.equals(BASE_WHITE) ? 1 : 0;
+  });
+  return packed;
+};
+
+const createFieldFrame = (): FieldFrame => ({
+  focal: new Float64Array(MAX_ENGINE_CENTERS * 3),
+  weights: new Float64Array(MAX_ENGINE_CENTERS),
+  radii: new Float64Array(MAX_ENGINE_CENTERS),
+  negative: new Uint8Array(MAX_ENGINE_CENTERS),
+  centers: 0,
+  combine: 'min',
+  blend: 1,
+  maxDist: 1,
+  metric: 'euclidean',
+  axis: 'y',
+  axisScale: new Float64Array([1, 1, 1]),
+  minScale: 0,
+  maxScale: 1,
+  lut: new Float32Array(MAX_ENGINE_CENTERS * LUT_SIZE),
+  lutSize: LUT_SIZE,
+  gradient: new Float32Array(MAX_ENGINE_CENTERS * GRADIENT_SIZE * 4),
+  gradientSize: GRADIENT_SIZE,
+  driver: 'distance',
+  orientation: 'fixed',
+  stretch: 0,
+});
+
+// Copies the current focal points, weights and scene config into a field frame
+const fillFieldFrame = (frame: FieldFrame, config: SceneConfig, points: THREE.Vector3[], weights: number[] | null) => {
+  const centers = Math.min(points.length, MAX_ENGINE_CENTERS);
+  for (let c = 0; c < centers; c++) {
+    points[c].toArray(frame.focal, c * 3);
+    frame.weights[c] = weights?.[c] ?? 1;
+    frame.radii[c] = config.radii[c] ?? 1;
+    frame.negative[c] = config.negativeCenters[c] ? 1 : 0;
+  }
+  frame.centers = centers;
+  frame.combine = config.combineMode;
+  frame.blend = config.blendRadius;
+  frame.maxDist = config.maxDist;
+  frame.metric = config.metric;
+  frame.axis = config.metricAxis;
+  frame.axisScale.set(config.axisScale);
+  frame.minScale = config.minScale;
+  frame.lut = config.lut;
+  frame.maxScale = config.maxScale;
+  frame.gradient = config.gradient;
+  frame.driver = config.gradientDriver;
+  frame.orientation = config.orientation;
+  frame.stretch = config.stretch;
+};
+
 const InstancedSpheres: React.FC<{ 
   baseSpheres: SphereData[];
   focalPointsRef: React.RefObject<THREE.Vector3[]>;
   weightRef: React.RefObject<number[]>;
   config: SceneConfig;
-  sphereSegments: number;
+  geometry: THREE.BufferGeometry;
   blendMode: BlendMode;
-}> = ({ baseSpheres, focalPointsRef, weightRef, config, sphereSegments, blendMode }) => {
+  snapshotRef: React.RefObject<InstanceSnapshotHandle | null>;
+  physics: PhysicsSettings | null;
+  /** Height bodies bounce off while physics is on. */
+  floor: number;
+  /** Physics only advances while the scene animates. */
+  running: boolean;
+  simulationEpoch: number;
+}> = ({ baseSpheres, focalPointsRef, weightRef, config, geometry, blendMode, snapshotRef, physics, floor, running, simulationEpoch }) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
   const materialRef = useRef<THREE.MeshStandardMaterial>(null);
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  const tempColor = useMemo(() => new THREE.Color(), []);
-  const positions = useMemo(
-    () => baseSpheres.map(s => new THREE.Vector3(...s.position)),
-    [baseSpheres]
+  const lattice = useMemo(() => packLattice(baseSpheres), [baseSpheres]);
+  const frame = useMemo(createFieldFrame, []);
+  const forceLut = useMemo(() => (physics ? forceLutOf(physics) : null), [physics]);
+  const bodyRadii = useMemo(() => new Float32Array(baseSpheres.length), [baseSpheres.length]);
+  // Collision radius of the primitive at scale 1
+  const geometryRadius = useMemo(() => {
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+    return geometry.boundingSphere?.radius ?? 1;
+  }, [geometry]);
+  // Bodies start at rest at home for a new lattice, when physics is switched on and on export restarts
+  const bodiesRef = useRef<PhysicsBodies | null>(null);
+  // Physics advances in the motion's fixed steps, so an export replays the same bodies
+  const physicsClockRef = useRef(0);
+  const physicsOn = physics !== null;
+  useEffect(() => {
+    bodiesRef.current = null;
+    physicsClockRef.current = 0;
+  }, [lattice, physicsOn, simulationEpoch]);
+  // Per-instance gradient alpha, read by the patched material
+  const alphaAttribute = useMemo(
+    () => new THREE.InstancedBufferAttribute(new Float32Array(baseSpheres.length).fill(1), 1),
+    [baseSpheres.length]
   );
+  const workerRef = useRef<FieldWorkerClient | null>(null);
+  // The first frame of a new lattice is evaluated in place so it never flashes unscaled
+  const primeRef = useRef(true);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const worker = createFieldWorker();
+    workerRef.current = worker;
+    return () => {
+      worker.dispose();
+      workerRef.current = null;
+    };
+  }, []);
 
-  // Initialize instance colors
+  useEffect(() => {
+    workerRef.current?.setLattice(lattice);
+    primeRef.current = true;
+  }, [lattice]);
+
+  useEffect(() => {
+    geometry.setAttribute('instanceAlpha', alphaAttribute);
+  }, [geometry, alphaAttribute]);
+
+  // The buffers the last frame was drawn from
+  useEffect(() => {
+    snapshotRef.current = {
+      snapshot: () => {
+        const mesh = meshRef.current;
+        if (!mesh?.instanceColor) return null;
+        return {
+          count: baseSpheres.length,
+          matrices: (mesh.instanceMatrix.array as Float32Array).slice(),
+          colors: (mesh.instanceColor.array as Float32Array).slice(),
+          geometry,
+        };
+      },
+    };
+    return () => {
+      snapshotRef.current = null;
+    };
+  }, [snapshotRef, baseSpheres.length, geometry]);
+
+  // Allocate instance colors; the field pass fills them in every frame
   React.useEffect(() => {
-    if (meshRef.current) {
+    const mesh = meshRef.current;
+    if (mesh && !mesh.instanceColor) {
       for (let i = 0; i < baseSpheres.length; i++) {
-        meshRef.current.setColorAt(i, config.tintColor);
-      }
-      if (meshRef.current.instanceColor) {
-        meshRef.current.instanceColor.needsUpdate = true;
+        mesh.setColorAt(i, config.tintColor);
       }
     }
-  }, [baseSpheres.length, config.tintColor]);
+  }, [baseSpheres.length]);
 
   React.useEffect(() => {
     if (materialRef.current) {
@@ -181,37 +495,58 @@ const InstancedSpheres: React.FC<{
     }
   }, [config.opacity]);
 
-  useFrame(() => {
-    if (!meshRef.current || !focalPointsRef.current || focalPointsRef.current.length === 0) return;
-
-    const { maxDist, lut, minScale, tintColor, tintColor2 } = config;
-    
-    for (let i = 0; i < positions.length; i++) {
-      const pos = positions[i];
-      let dist = Infinity;
-      for (let c = 0; c < Math.min(focalPointsRef.current.length, MAX_ENGINE_CENTERS); c++) {
-        const w = weightRef.current?.[c] ?? 1;
-        if (w < 0.001) continue;
-        const d = pos.distanceTo(focalPointsRef.current[c]) / w;
-        if (d < dist) dist = d;
-      }
-      const t = Math.min(1, dist / maxDist);
-      const idx = Math.floor(t * (LUT_SIZE - 1));
-      const finalScale = lut[idx] || minScale;
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    const points = focalPointsRef.current;
+    if (!mesh || !mesh.instanceColor || !points || points.length === 0) return;
 
-      dummy.position.copy(pos);
-      dummy.scale.setScalar(finalScale);
-      dummy.updateMatrix();
-      meshRef.current.setMatrixAt(i, dummy.matrix);
+    fillFieldFrame(frame, config, points, weightRef.current);
 
-      // Blend colors based on distance: close to focal = tintColor, far = tintColor2
-      tempColor.copy(tintColor).lerp(tintColor2, t);
-      meshRef.current.setColorAt(i, tempColor);
+    const matrices = mesh.instanceMatrix.array as Float32Array;
+    const colors = mesh.instanceColor.array as Float32Array;
+    const alphas = alphaAttribute.array as Float32Array;
+    const worker = workerRef.current;
+    // Offline export steps frames by hand, so evaluate synchronously to keep every frame exact.
+    // Read the live state: a subscribed value lags a render behind the switch to 'never'
+    if (!worker || state.frameloop === 'never' || primeRef.current) {
+      evaluateField(lattice, frame, matrices, colors, alphas);
+      primeRef.current = false;
+    } else {
+      // Otherwise show the newest finished buffer and queue the next frame
+      const result = worker.take();
+      if (result) {
+        if (result.matrices.length === matrices.length && result.alphas.length === alphas.length) {
+          matrices.set(result.matrices);
+          colors.set(result.colors);
+          alphas.set(result.alphas);
+        }
+        worker.release(result);
+      }
+      worker.request(frame);
+      // Bodies keep moving between worker results
+      if (!result && !physics) return;
     }
-    meshRef.current.instanceMatrix.needsUpdate = true;
-    if (meshRef.current.instanceColor) {
-      meshRef.current.instanceColor.needsUpdate = true;
+    if (physics && forceLut) {
+      const bodies = (bodiesRef.current ??= createPhysicsBodies(lattice.positions));
+      // A body is as large as its instance: the length of the matrix's x column times the primitive's radius
+      for (let i = 0; i < bodies.count; i++) {
+        bodyRadii[i] = Math.hypot(matrices[i * 16], matrices[i * 16 + 1], matrices[i * 16 + 2]) * geometryRadius;
+      }
+      if (running) {
+        physicsClockRef.current += Math.min(delta, MAX_MOTION_CATCH_UP);
+        const steps = Math.floor((physicsClockRef.current + 1e-9) / MOTION_STEP);
+        physicsClockRef.current -= steps * MOTION_STEP;
+        stepPhysics(bodies, lattice.positions, frame, { settings: physics, forceLut, floor, radii: bodyRadii }, MOTION_STEP, steps);
+      }
+      for (let i = 0; i < bodies.count; i++) {
+        matrices[i * 16 + 12] = bodies.positions[i * 3];
+        matrices[i * 16 + 13] = bodies.positions[i * 3 + 1];
+        matrices[i * 16 + 14] = bodies.positions[i * 3 + 2];
+      }
     }
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.instanceColor.needsUpdate = true;
+    alphaAttribute.needsUpdate = true;
   });
 
   return (
@@ -222,7 +557,7 @@ const InstancedSpheres: React.FC<{
       receiveShadow
       renderOrder={1}
     >
-      <sphereGeometry args={[1, sphereSegments, sphereSegments]} />
+      <primitive object={geometry} attach="geometry" />
       <meshStandardMaterial 
         ref={materialRef}
         color="#ffffff" 
@@ -234,94 +569,263 @@ const InstancedSpheres: React.FC<{
         opacity={config.opacity}
         blending={BLEND_MAP[blendMode]}
         depthWrite={blendMode === 'normal'}
+        onBeforeCompile={applyInstanceAlpha}
       />
     </instancedMesh>
   );
 };
 
-const FocalPointMarker: React.FC<{ focalPointRef: React.RefObject<THREE.Vector3>; visible: boolean }> = ({ focalPointRef, visible }) => {
+/**
+ * GPU variant of InstancedSpheres: matrices and colors are written once per lattice and the
+ * vertex shader applies the field scale and tint, so per-frame work is a handful of uniforms.
+ * Shadow depth passes use field-patched materials too. ContactShadows renders the scene with
+ * its own override material, so a proxy mesh sharing the instances stands in for it there.
+ */
+const GpuInstancedSpheres: React.FC<{
+  baseSpheres: SphereData[];
+  focalPointsRef: React.RefObject<THREE.Vector3[]>;
+  weightRef: React.RefObject<number[]>;
+  config: SceneConfig;
+  geometry: THREE.BufferGeometry;
+  blendMode: BlendMode;
+  snapshotRef: React.RefObject<InstanceSnapshotHandle | null>;
+}> = ({ baseSpheres, focalPointsRef, weightRef, config, geometry, blendMode, snapshotRef }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const contactRef = useRef<THREE.InstancedMesh>(null);
+  const uniforms = useMemo(() => createFieldUniforms(MAX_ENGINE_CENTERS, LUT_SIZE, GRADIENT_SIZE), []);
+  // 1 hides a material; the main one sits out the contact shadow pass and the proxy the rest
+  const hiddenMain = useMemo(() => ({ value: 0 }), []);
+  const hiddenContact = useMemo(() => ({ value: 1 }), []);
+  const shadowMaterials = useMemo(() => {
+    const patch = <M extends THREE.Material>(material: M) => {
+      material.onBeforeCompile = (shader) => applyFieldShader(shader, uniforms, MAX_ENGINE_CENTERS, LUT_SIZE, GRADIENT_SIZE);
+      return material;
+    };
+    const contact = new THREE.MeshDepthMaterial({ depthTest: false, depthWrite: false });
+    contact.allowOverride = false;
+    contact.onBeforeCompile = (shader) => {
+      applyFieldShader(shader, uniforms, MAX_ENGINE_CENTERS, LUT_SIZE, GRADIENT_SIZE, hiddenContact);
+      applyContactShadowDepth(shader);
+    };
+    contact.onBeforeRender = (_, scene) => {
+      hiddenContact.value = scene.overrideMaterial ? 0 : 1;
+    };
+    return {
+      depth: patch(new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking })),
+      distance: patch(new THREE.MeshDistanceMaterial()),
+      contact,
+    };
+  }, [uniforms, hiddenContact]);
+
+  useEffect(() => () => {
+    uniforms.uLut.value.dispose();
+    uniforms.uGradient.value.dispose();
+    shadowMaterials.depth.dispose();
+    shadowMaterials.distance.dispose();
+    shadowMaterials.contact.dispose();
+  }, [uniforms, shadowMaterials]);
+
+  // Static per-instance data; re-attached whenever the primitive geometry is rebuilt
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dummy = new THREE.Object3D();
+    const color = new THREE.Color();
+    const tinted = new Float32Array(baseSpheres.length);
+    baseSpheres.forEach((sphere, i) => {
+      dummy.position.set(...sphere.position);
+      dummy.scale.setScalar(sphere.scale);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+      color.set(sphere.color);
+      const override = !color.equals(BASE_WHITE);
+      mesh.setColorAt(i, override ? color : BASE_WHITE);
+      tinted[i] = override ? 0 : 1;
+    });
+    geometry.setAttribute('instanceTinted', new THREE.InstancedBufferAttribute(tinted, 1));
+    geometry.setAttribute('instanceGradient', new THREE.InstancedBufferAttribute(gradientCoords(baseSpheres), 2));
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    if (contactRef.current) contactRef.current.instanceMatrix = mesh.instanceMatrix;
+  }, [baseSpheres, geometry]);
+
+  useEffect(() => {
+    uniforms.uMaxDist.value = config.maxDist;
+    uniforms.uMetric.value = metricIndex(config.metric);
+    uniforms.uAxis.value = axisIndex(config.metricAxis);
+    uniforms.uAxisScale.value.fromArray(config.axisScale);
+    uniforms.uCombine.value = combineIndex(config.combineMode);
+    uniforms.uBlend.value = config.blendRadius;
+    uniforms.uNegative.value = uniforms.uNegative.value.map((_, c) => (config.negativeCenters[c] ? 1 : 0));
+    uniforms.uMinScale.value = config.minScale;
+    uniforms.uMaxScale.value = config.maxScale;
+    uniforms.uDriver.value = driverIndex(config.gradientDriver);
+    uniforms.uRadius.value = uniforms.uRadius.value.map((_, c) => config.radii[c] ?? 1);
+    uniforms.uOrientation.value = orientationIndex(config.orientation);
+    uniforms.uStretch.value = config.stretch;
+    const lut = uniforms.uLut.value;
+    (lut.image.data as Float32Array).set(config.lut);
+    lut.needsUpdate = true;
+    const gradient = uniforms.uGradient.value;
+    (gradient.image.data as Float32Array).set(config.gradient);
+    gradient.needsUpdate = true;
+  }, [config, uniforms]);
+
+  // The shader's scale and tint for the current focal state, evaluated once on the CPU
+  useEffect(() => {
+    snapshotRef.current = {
+      snapshot: () => {
+        const count = baseSpheres.length;
+        const frame = createFieldFrame();
+        fillFieldFrame(frame, config, focalPointsRef.current ?? [], weightRef.current);
+        const matrices = new Float32Array(count * 16);
+        const colors = new Float32Array(count * 3);
+        evaluateField(packLattice(baseSpheres), frame, matrices, colors, new Float32Array(count));
+        return { count, matrices, colors, geometry };
+      },
+    };
+    return () => {
+      snapshotRef.current = null;
+    };
+  }, [snapshotRef, baseSpheres, config, geometry, focalPointsRef, weightRef]);
+
+  useFrame(() => {
+    const points = focalPointsRef.current ?? [];
+    for (let c = 0; c < MAX_ENGINE_CENTERS; c++) {
+      const point = points[c];
+      uniforms.uWeight.value[c] = point ? (weightRef.current?.[c] ?? 1) : 0;
+      if (point) uniforms.uFocal.value[c].copy(point);
+    }
+  });
+
+  return (
+    <>
+      <instancedMesh
+        ref={meshRef}
+        args={[undefined as unknown as THREE.BufferGeometry, undefined as unknown as THREE.Material, baseSpheres.length]}
+        castShadow
+        receiveShadow
+        renderOrder={1}
+        // Instances are scaled in the shader, so CPU-side bounds would be wrong
+        frustumCulled={false}
+        customDepthMaterial={shadowMaterials.depth}
+        customDistanceMaterial={shadowMaterials.distance}
+      >
+        <primitive object={geometry} attach="geometry" />
+        <meshStandardMaterial
+          color="#ffffff"
+          emissive="#ffffff"
+          emissiveIntensity={0.15}
+          roughness={0.1}
+          metalness={0.2}
+          transparent
+          opacity={config.opacity}
+          blending={BLEND_MAP[blendMode]}
+          depthWrite={blendMode === 'normal'}
+          allowOverride={false}
+          onBeforeCompile={(shader) => applyFieldShader(shader, uniforms, MAX_ENGINE_CENTERS, LUT_SIZE, GRADIENT_SIZE, hiddenMain)}
+          onBeforeRender={(_, scene) => {
+            hiddenMain.value = scene.overrideMaterial ? 1 : 0;
+          }}
+        />
+      </instancedMesh>
+      <instancedMesh
+        ref={contactRef}
+        args={[undefined as unknown as THREE.BufferGeometry, shadowMaterials.contact, baseSpheres.length]}
+        frustumCulled={false}
+      >
+        <primitive object={geometry} attach="geometry" />
+      </instancedMesh>
+    </>
+  );
+};
+
+const PINNED_MARKER_COLOR = '#fbbf24';
+
+/**
+ * Marker for a single focal point. Clicking selects it; the selected marker gets a
+ * translate gizmo, and dragging it pins the focal point where it is dropped.
+ */
+const FocalPointMarker: React.FC<{
+  index: number;
+  focalPointsRef: React.RefObject<THREE.Vector3[]>;
+  selected: boolean;
+  pinned: boolean;
+  onSelect: (index: number) => void;
+  onPin: (index: number) => void;
+}> = ({ index, focalPointsRef, selected, pinned, onSelect, onPin }) => {
   const markerRef = useRef<THREE.Mesh>(null);
   const lightRef = useRef<THREE.PointLight>(null);
+  const draggingRef = useRef(false);
 
   useFrame(() => {
-    if (markerRef.current && focalPointRef.current) {
-      markerRef.current.position.copy(focalPointRef.current);
+    const focal = focalPointsRef.current?.[index];
+    if (!focal) return;
+    if (markerRef.current && !draggingRef.current) {
+      markerRef.current.position.copy(focal);
     }
-    if (lightRef.current && focalPointRef.current) {
-      lightRef.current.position.copy(focalPointRef.current);
+    if (lightRef.current) {
+      lightRef.current.position.copy(markerRef.current?.position ?? focal);
     }
   });
 
-  if (!visible) return null;
-
   return (
     <group>
-      <mesh ref={markerRef}>
+      <mesh
+        ref={markerRef}
+        onClick={(e) => { e.stopPropagation(); onSelect(index); }}
+        onPointerOver={() => { document.body.style.cursor = 'pointer'; }}
+        onPointerOut={() => { document.body.style.cursor = ''; }}
+      >
         <sphereGeometry args={[0.3, 16, 16]} />
-        <meshBasicMaterial color="#ffffff" />
+        <meshBasicMaterial color={pinned ? PINNED_MARKER_COLOR : '#ffffff'} />
       </mesh>
       <pointLight ref={lightRef} intensity={2} distance={10} color="#ffffff" />
+      {selected && (
+        <TransformControls
+          object={markerRef as React.RefObject<THREE.Object3D>}
+          mode="translate"
+          size={0.7}
+          onMouseDown={() => {
+            draggingRef.current = true;
+            onPin(index);
+          }}
+          onMouseUp={() => { draggingRef.current = false; }}
+          onObjectChange={() => {
+            const focal = focalPointsRef.current?.[index];
+            if (focal && markerRef.current) focal.copy(markerRef.current.position);
+          }}
+        />
+      )}
     </group>
   );
 };
 
-const AdjacentLines: React.FC<{ baseSpheres: SphereData[]; tintColor: THREE.Color; opacity: number }> = ({ baseSpheres, tintColor, opacity }) => {
-  // Create a map of sphere positions by their grid coordinates for quick lookup
-  const sphereMap = useMemo(() => {
-    const map = new Map<string, number>();
-    baseSpheres.forEach((sphere, index) => {
-      // Extract grid coordinates from id: "sphere-x-y-z"
-      const match = sphere.id.match(/sphere-(\d+)-(\d+)-(\d+)/);
-      if (match) {
-        const key = `${match[1]},${match[2]},${match[3]}`;
-        map.set(key, index);
-      }
-    });
-    return map;
-  }, [baseSpheres]);
+/**
+ * Lines between neighbouring lattice points: every pair closer than `linkDistance`, so any
+ * layout (or edited lattice) gets lines that follow its actual structure.
+ */
+const AdjacentLines: React.FC<{
+  baseSpheres: SphereData[];
+  linkDistance: number;
+  tintColor: THREE.Color;
+  opacity: number;
+}> = ({ baseSpheres, linkDistance, tintColor, opacity }) => {
+  const visible = opacity > 0;
 
-  // Generate line segments for adjacent spheres
+  // Generate line segments for adjacent spheres; skipped while the lines are hidden
   const lineGeometry = useMemo(() => {
-    const positions: number[] = [];
-    
-    baseSpheres.forEach((sphere, index) => {
-      const match = sphere.id.match(/sphere-(\d+)-(\d+)-(\d+)/);
-      if (!match) return;
-      
-      const x = parseInt(match[1], 10);
-      const y = parseInt(match[2], 10);
-      const z = parseInt(match[3], 10);
-      
-      // Check adjacent spheres in +x, +y, +z directions to avoid duplicates
-      const neighbors = [
-        [x + 1, y, z], // +x
-        [x, y + 1, z], // +y
-        [x, y, z + 1], // +z
-      ];
-      
-      neighbors.forEach(([nx, ny, nz]) => {
-        const neighborKey = `${nx},${ny},${nz}`;
-        const neighborIndex = sphereMap.get(neighborKey);
-        
-        if (neighborIndex !== undefined) {
-          // Add start position (current sphere)
-          const startPos = baseSpheres[index].position;
-          positions.push(startPos[0], startPos[1], startPos[2]);
-          
-          // Add end position (neighbor sphere)
-          const endPos = baseSpheres[neighborIndex].position;
-          positions.push(endPos[0], endPos[1], endPos[2]);
-        }
-      });
-    });
-    
+    if (!visible) return null;
+    const positions = neighborSegments(baseSpheres.map(sphere => sphere.position), linkDistance);
     const geometry = new THREE.BufferGeometry();
     geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
     return geometry;
-  }, [baseSpheres, sphereMap]);
+  }, [baseSpheres, linkDistance, visible]);
+
+  useEffect(() => () => lineGeometry?.dispose(), [lineGeometry]);
 
   // Don't render lines when opacity is 0
-  if (opacity <= 0) {
+  if (!lineGeometry) {
     return null;
   }
 
@@ -338,59 +842,100 @@ const AdjacentLines: React.FC<{ baseSpheres: SphereData[]; tintColor: THREE.Colo
   );
 };
 
+/**
+ * Closed preview of a center's authored spline path.
+ */
+const MotionPathPreview: React.FC<{ path: FocalMotion['path']; bounds: THREE.Vector3; color: THREE.Color }> = ({ path, bounds, color }) => {
+  const geometry = useMemo(() => {
+    const points: THREE.Vector3[] = [];
+    for (let i = 0; i <= 96; i++) {
+      points.push(sampleMotionPath(path, i / 96, bounds, new THREE.Vector3()));
+    }
+    return new THREE.BufferGeometry().setFromPoints(points);
+  }, [path, bounds.x, bounds.y, bounds.z]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <line>
+      <primitive object={geometry} attach="geometry" />
+      <lineBasicMaterial color={color} transparent opacity={0.6} depthWrite={false} />
+    </line>
+  );
+};
+
 const SceneContent: React.FC<{
   isDynamic: boolean;
   speed: number;
   engineCenters: number;
   engineRandomness: number;
+  seed: number;
   sphereSegments: number;
   baseSpheres: SphereData[];
   config: SceneConfig;
   focalPointsRef: React.RefObject<THREE.Vector3[]>;
   showFocalPoint: boolean;
   boundScale: number;
+  matrixBounds: THREE.Vector3;
   blendMode: BlendMode;
   lineOpacity: number;
-}> = ({ isDynamic, speed, engineCenters, engineRandomness, sphereSegments, baseSpheres, config, focalPointsRef, showFocalPoint, boundScale, blendMode, lineOpacity }) => {
-  const phaseRef = useRef<{ px: number; py: number; pz: number; amp: THREE.Vector3; freq: THREE.Vector3 }[]>([]);
+  /** Lattice points closer than this are joined by lines. */
+  linkDistance: number;
+  simulationEpoch: number;
+  pinnedCenters: boolean[];
+  selectedCenter: number | null;
+  onSelectCenter: (index: number) => void;
+  onPinCenter: (index: number) => void;
+  motions: FocalMotion[];
+  weightScales: number[] | null;
+  gpuScaling: boolean;
+  primitive: Primitive;
+  customGeometry: THREE.BufferGeometry | null;
+  snapshotRef: React.RefObject<InstanceSnapshotHandle | null>;
+  samplerRef: React.RefObject<FieldSamplerHandle | null>;
+  physics: PhysicsSettings | null;
+  floor: number;
+}> = ({
+  isDynamic, speed, engineCenters, engineRandomness, seed, sphereSegments, baseSpheres, config, focalPointsRef, showFocalPoint,
+  boundScale, matrixBounds, blendMode, lineOpacity, linkDistance, simulationEpoch, pinnedCenters, selectedCenter, onSelectCenter, onPinCenter,
+  motions, weightScales, gpuScaling, primitive, customGeometry, snapshotRef, samplerRef, physics, floor,
+}) => {
+  const geometry = useMemo(
+    () => createPrimitiveGeometry(primitive, sphereSegments, customGeometry),
+    [primitive, sphereSegments, customGeometry]
+  );
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  const phaseRef = useRef<MotionPhase[]>([]);
+  const phaseSeedRef = useRef<number | null>(null);
+  // Integrator state for stateful models, reset whenever a center switches model
+  const motionStateRef = useRef<{ kind: MotionKind; state: MotionState }[]>([]);
   const weightRef = useRef<number[]>([]);
   const weightTargetRef = useRef<number[]>([]);
   const timeRef = useRef(0);
+  // Real time not yet consumed by a fixed motion step
+  const stepClockRef = useRef(0);
   const smoothRandomnessRef = useRef(engineRandomness);
+  const tempBound = useMemo(() => new THREE.Vector3(), []);
+  // Where each point was last pinned, and how far (0-1) it has eased back onto its kinetic path since release
+  const anchorRef = useRef<THREE.Vector3[]>([]);
+  const releaseRef = useRef<number[]>([]);
 
   // Ensure we have a phase/weights per engine center (max capped)
   useEffect(() => {
-    while (phaseRef.current.length < MAX_ENGINE_CENTERS) {
-      const jitterAmp = new THREE.Vector3(
-        0.6 + Math.random() * 0.8,
-        0.6 + Math.random() * 0.8,
-        0.6 + Math.random() * 0.8
-      );
-      const jitterFreq = new THREE.Vector3(
-        1 + Math.random() * 0.3,
-        1 + Math.random() * 0.3,
-        1 + Math.random() * 0.3
+    const bound = matrixBounds.clone().multiplyScalar(boundScale);
+    // A new seed replays the motion from t=0 so the same seed always traces the same paths
+    if (phaseSeedRef.current !== seed) {
+      phaseSeedRef.current = seed;
+      phaseRef.current = Array.from({ length: MAX_ENGINE_CENTERS }, (_, i) =>
+        createMotionPhase(createRandom(deriveSeed(seed, 'phase', i)))
       );
-      phaseRef.current.push({
-        px: Math.random() * Math.PI * 2,
-        py: Math.random() * Math.PI * 2,
-        pz: Math.random() * Math.PI * 2,
-        amp: jitterAmp,
-        freq: jitterFreq,
-      });
-    }
-    while (phaseRef.current.length > MAX_ENGINE_CENTERS) {
-      phaseRef.current.pop();
+      timeRef.current = 0;
+      stepClockRef.current = 0;
+      motionStateRef.current = [];
+      focalPointsRef.current.forEach((point, i) => point.copy(seedFocalPoint(seed, i, bound)));
     }
     while (focalPointsRef.current.length < MAX_ENGINE_CENTERS) {
-      const bound = (GRID_SIZE * INITIAL_SPACING) / 2 * boundScale;
-      focalPointsRef.current.push(
-        new THREE.Vector3(
-          (Math.random() - 0.5) * bound,
-          (Math.random() - 0.5) * bound,
-          (Math.random() - 0.5) * bound
-        )
-      );
+      focalPointsRef.current.push(seedFocalPoint(seed, focalPointsRef.current.length, bound));
     }
     while (weightRef.current.length < MAX_ENGINE_CENTERS) {
       weightRef.current.push(0);
@@ -402,17 +947,67 @@ const SceneContent: React.FC<{
     for (let i = 0; i < MAX_ENGINE_CENTERS; i++) {
       weightTargetRef.current[i] = i < engineCenters ? 1 : 0;
     }
-  }, [engineCenters, boundScale]);
+  }, [engineCenters, boundScale, matrixBounds, seed]);
 
-  useFrame((state, delta) => {
+  useEffect(() => {
+    // Packed on first use and kept for the rest of a recording
+    let lattice: FieldLattice | null = null;
+    samplerRef.current = {
+      sample: () => {
+        const count = baseSpheres.length;
+        lattice ??= packLattice(baseSpheres);
+        const frame = createFieldFrame();
+        fillFieldFrame(frame, config, focalPointsRef.current ?? [], weightRef.current);
+        const samples = new Float32Array(count * 2);
+        const colors = new Float32Array(count * 3);
+        evaluateField(lattice, frame, new Float32Array(count * 16), colors, new Float32Array(count), samples);
+        return {
+          scales: samples.filter((_, i) => i % 2 === 0),
+          distances: samples.filter((_, i) => i % 2 === 1),
+          colors,
+        };
+      },
+    };
+    return () => {
+      samplerRef.current = null;
+    };
+  }, [samplerRef, baseSpheres, config, focalPointsRef]);
+
+  // Restart the motion from t=0 with settled weights so offline exports always begin from the same state
+  useEffect(() => {
+    if (simulationEpoch === 0) return;
+    timeRef.current = 0;
+    stepClockRef.current = 0;
+    smoothRandomnessRef.current = engineRandomness;
+    motionStateRef.current = [];
+    for (let i = 0; i < weightRef.current.length; i++) {
+      weightRef.current[i] = weightTargetRef.current[i] ?? 0;
+    }
+    const bound = matrixBounds.clone().multiplyScalar(boundScale);
+    focalPointsRef.current.forEach((point, i) => {
+      if (!pinnedCenters[i]) point.copy(seedFocalPoint(seed, i, bound));
+    });
+  }, [simulationEpoch]);
+
+  useFrame((_, delta) => {
     if (!isDynamic || !focalPointsRef.current) return;
 
+    // Fixed steps, so the same seed traces the same paths at any frame rate
+    stepClockRef.current += Math.min(delta, MAX_MOTION_CATCH_UP);
+    while (stepClockRef.current >= MOTION_STEP - 1e-9) {
+      stepClockRef.current -= MOTION_STEP;
+      stepMotion(MOTION_STEP);
+    }
+  });
+
+  // Advances focal motion, weight fades and repulsion by one fixed step of `delta` seconds
+  const stepMotion = (delta: number) => {
     timeRef.current += delta * speed;
 
     // Smooth weights toward targets for gentle fade in/out
     for (let i = 0; i < weightRef.current.length; i++) {
       const current = weightRef.current[i] ?? 0;
-      const target = weightTargetRef.current[i] ?? 0;
+      const target = (weightTargetRef.current[i] ?? 0) * (weightScales?.[i] ?? 1);
       weightRef.current[i] = THREE.MathUtils.lerp(current, target, 1 - Math.exp(-delta * 6));
     }
 
@@ -423,41 +1018,54 @@ const SceneContent: React.FC<{
       1 - Math.exp(-delta * 3)
     );
 
-    const baseBound = (GRID_SIZE * INITIAL_SPACING) / 2;
-    const bound = baseBound * boundScale;
+    const bound = tempBound.copy(matrixBounds).multiplyScalar(boundScale);
     const t = timeRef.current;
-    const freq = 0.2;
     const randNorm = smoothRandomnessRef.current / 100;
 
     const centerCount = Math.min(engineCenters, MAX_ENGINE_CENTERS);
     const tempVec = new THREE.Vector3();
     const repulsionStrength = 0.66; // Moderate repulsion strength
-    const minDistance = bound * 0.3; // Minimum distance before repulsion kicks in
+    const minDistance = (bound.length() / Math.sqrt(3)) * 0.3; // Minimum distance before repulsion kicks in
     
-    // First, calculate base positions from sinusoidal motion
+    // First, calculate base positions from each center's motion model
     for (let i = 0; i < centerCount; i++) {
-      const phase = phaseRef.current[i];
-      const freqJitterX = (1.0 + i * 0.1) * THREE.MathUtils.lerp(1, phase.freq.x, randNorm);
-      const freqJitterY = (1.35 + i * 0.1) * THREE.MathUtils.lerp(1, phase.freq.y, randNorm);
-      const freqJitterZ = (0.8 + i * 0.08) * THREE.MathUtils.lerp(1, phase.freq.z, randNorm);
+      if (!anchorRef.current[i]) anchorRef.current[i] = new THREE.Vector3();
+      if (releaseRef.current[i] === undefined) releaseRef.current[i] = 1;
+      if (!focalPointsRef.current[i]) {
+        focalPointsRef.current[i] = new THREE.Vector3();
+      }
 
-      const ampJitterX = THREE.MathUtils.lerp(1, phase.amp.x, randNorm);
-      const ampJitterY = THREE.MathUtils.lerp(1, phase.amp.y, randNorm);
-      const ampJitterZ = THREE.MathUtils.lerp(1, phase.amp.z, randNorm);
+      // Pinned points stay exactly where they were dropped
+      if (pinnedCenters[i]) {
+        anchorRef.current[i].copy(focalPointsRef.current[i]);
+        releaseRef.current[i] = 0;
+        continue;
+      }
 
-      const x = Math.sin(t * freq * freqJitterX + phase.px) * bound * ampJitterX;
-      const y = Math.sin(t * freq * freqJitterY + phase.py) * bound * 0.85 * ampJitterY;
-      const z = Math.cos(t * freq * freqJitterZ + phase.pz) * bound * ampJitterZ;
+      const motion = motions[i] ?? DEFAULT_SCENE_SETTINGS.motions[0];
+      let entry = motionStateRef.current[i];
+      if (!entry || entry.kind !== motion.kind) {
+        entry = { kind: motion.kind, state: createMotionState() };
+        motionStateRef.current[i] = entry;
+      }
+      evaluateMotion(
+        motion,
+        { index: i, time: t, delta: delta * speed, bounds: bound, randomness: randNorm, phase: phaseRef.current[i] },
+        entry.state,
+        focalPointsRef.current[i]
+      );
 
-      if (!focalPointsRef.current[i]) {
-        focalPointsRef.current[i] = new THREE.Vector3();
+      // Ease released points from their pin back onto the kinetic path
+      if (releaseRef.current[i] < 1) {
+        releaseRef.current[i] = Math.min(1, releaseRef.current[i] + delta * 1.5);
+        const ease = THREE.MathUtils.smoothstep(releaseRef.current[i], 0, 1);
+        focalPointsRef.current[i].lerpVectors(anchorRef.current[i], focalPointsRef.current[i], ease);
       }
-      focalPointsRef.current[i].set(x, y, z);
     }
     
     // Apply repulsion forces between active focal points
     for (let i = 0; i < centerCount; i++) {
-      if (weightRef.current[i] < 0.05) continue; // Skip inactive centers
+      if (weightRef.current[i] < 0.05 || pinnedCenters[i]) continue; // Skip inactive and pinned centers
       
       const pos1 = focalPointsRef.current[i];
       const repulsionForce = new THREE.Vector3(0, 0, 0);
@@ -480,89 +1088,409 @@ const SceneContent: React.FC<{
       // Apply repulsion force to position
       pos1.add(repulsionForce);
     }
-  });
+  };
 
   return (
     <group>
-      {showFocalPoint && focalPointsRef.current?.slice(0, MAX_ENGINE_CENTERS).map((ref, idx) => (
+      {showFocalPoint && focalPointsRef.current?.slice(0, MAX_ENGINE_CENTERS).map((_, idx) => (
         weightRef.current[idx] > 0.05 ? (
-          <FocalPointMarker key={`fp-${idx}`} focalPointRef={{ current: ref }} visible={true} />
+          <FocalPointMarker
+            key={`fp-${idx}`}
+            index={idx}
+            focalPointsRef={focalPointsRef}
+            selected={selectedCenter === idx}
+            pinned={pinnedCenters[idx] ?? false}
+            onSelect={onSelectCenter}
+            onPin={onPinCenter}
+          />
         ) : null
       ))}
-      <AdjacentLines baseSpheres={baseSpheres} tintColor={config.tintColor} opacity={lineOpacity} />
-      <InstancedSpheres 
-        baseSpheres={baseSpheres} 
-        focalPointsRef={focalPointsRef} 
-        weightRef={weightRef}
-        config={config}
-        sphereSegments={sphereSegments}
-        blendMode={blendMode}
-      />
+      {showFocalPoint && selectedCenter !== null && motions[selectedCenter]?.kind === 'spline' && (
+        <MotionPathPreview
+          path={motions[selectedCenter].path}
+          bounds={matrixBounds.clone().multiplyScalar(boundScale)}
+          color={config.tintColor}
+        />
+      )}
+      <AdjacentLines baseSpheres={baseSpheres} linkDistance={linkDistance} tintColor={config.tintColor} opacity={lineOpacity} />
+      {/* Physics moves the instances on the CPU, so it always takes the CPU path */}
+      {gpuScaling && !physics ? (
+        <GpuInstancedSpheres
+          baseSpheres={baseSpheres}
+          focalPointsRef={focalPointsRef}
+          weightRef={weightRef}
+          config={config}
+          geometry={geometry}
+          blendMode={blendMode}
+          snapshotRef={snapshotRef}
+        />
+      ) : (
+        <InstancedSpheres 
+          baseSpheres={baseSpheres} 
+          focalPointsRef={focalPointsRef} 
+          weightRef={weightRef}
+          config={config}
+          geometry={geometry}
+          blendMode={blendMode}
+          snapshotRef={snapshotRef}
+          physics={physics}
+          floor={floor}
+          running={isDynamic}
+          simulationEpoch={simulationEpoch}
+        />
+      )}
     </group>
   );
 };
 
 /**
- * Visual Editor for the Bezier Falloff Curve.
+ * Measures frame pacing and main-pass render stats, reporting one averaged sample per window.
+ */
+const PerfProbe: React.FC<{ onSample: (sample: PerfSample) => void }> = ({ onSample }) => {
+  const gl = useThree(state => state.gl);
+  const onSampleRef = useRef(onSample);
+  onSampleRef.current = onSample;
+  const statsRef = useRef({ windowStart: 0, frameStart: 0, frames: 0, work: 0 });
+
+  // Runs before every other frame callback so work time covers simulation and rendering
+  useFrame(() => {
+    statsRef.current.frameStart = performance.now();
+  }, -1);
+
+  useEffect(() => addAfterEffect(() => {
+    const stats = statsRef.current;
+    const now = performance.now();
+    if (stats.windowStart === 0) {
+      stats.windowStart = now;
+      return;
+    }
+    stats.frames++;
+    stats.work += now - stats.frameStart;
+    const elapsed = now - stats.windowStart;
+    if (elapsed < PERF_SAMPLE_MS) return;
+    onSampleRef.current({
+      fps: (stats.frames * 1000) / elapsed,
+      frameMs: elapsed / stats.frames,
+      workMs: stats.work / stats.frames,
+      drawCalls: gl.info.render.calls,
+      triangles: gl.info.render.triangles,
+    });
+    stats.windowStart = now;
+    stats.frames = 0;
+    stats.work = 0;
+  }), [gl]);
+
+  return null;
+};
+
+const PerfHud: React.FC<{ sample: PerfSample | null; instances: number; tier: QualityTier | null }> = ({ sample, instances, tier }) => {
+  const rows: [string, string][] = [
+    ['FPS', sample ? sample.fps.toFixed(0) : '–'],
+    ['Frame', sample ? `${sample.frameMs.toFixed(1)} ms` : '–'],
+    ['Work', sample ? `${sample.workMs.toFixed(1)} ms` : '–'],
+    ['Draw Calls', sample ? String(sample.drawCalls) : '–'],
+    ['Triangles', sample ? sample.triangles.toLocaleString() : '–'],
+    ['Instances', instances.toLocaleString()],
+  ];
+  if (tier) rows.push(['Quality', tier.label]);
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 pointer-events-none bg-neutral-900/80 border border-white/10 rounded-xl px-4 py-3 shadow-2xl backdrop-blur grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] font-mono">
+      {rows.map(([label, value]) => (
+        <React.Fragment key={label}>
+          <span className="uppercase font-bold tracking-wider text-neutral-500">{label}</span>
+          <span className="text-right text-white">{value}</span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Auto-quality target (off, 30 or 60 fps) and the performance HUD toggle.
+ */
+const QualityControls: React.FC<{
+  target: number | null;
+  onTargetChange: (target: number | null) => void;
+  showHud: boolean;
+  onShowHudChange: (show: boolean) => void;
+  tier: QualityTier | null;
+  accentColor: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({ target, onTargetChange, showHud, onShowHudChange, tier, accentColor, accentBorder, accentShadow }) => {
+  const buttonClass = "flex-1 py-1.5 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-wider text-neutral-400">Auto Quality</span>
+        <div className="flex items-center gap-2">
+          {tier && <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{tier.label}</span>}
+          <button
+            onClick={() => onShowHudChange(!showHud)}
+            className="text-neutral-500 hover:text-white transition"
+            style={showHud ? { color: accentColor } : undefined}
+            title={showHud ? 'Hide performance HUD' : 'Show performance HUD'}
+          >
+            <Gauge size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        {[null, ...QUALITY_TARGETS].map(fps => (
+          <button
+            key={String(fps)}
+            onClick={() => onTargetChange(fps)}
+            className={buttonClass}
+            style={target === fps ? activeStyle : undefined}
+            title={fps ? `Lower sphere detail, resolution and shadows to hold ${fps} fps` : 'Keep quality fixed'}
+          >
+            {fps ? `${fps} fps` : 'Off'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface FrameStepCallbacks {
+  prepareFrame: (time: number) => Promise<void>;
+  onProgress: (frame: number, total: number) => void;
+  signal: AbortSignal;
+}
+
+interface FrameExporterHandle {
+  render: (options: ExportOptions, callbacks: FrameStepCallbacks) => Promise<Blob | null>;
+  /** Steps the simulation like `render` at the live size, calling `onFrame` after each step; false when aborted. */
+  record: (
+    options: { fps: number; duration: number },
+    callbacks: FrameStepCallbacks & { onFrame: (frame: number, time: number) => void }
+  ) => Promise<boolean>;
+}
+
+/**
+ * Offline renderer: pauses the live frameloop and steps every useFrame with a fixed
+ * timestep at the requested resolution, handing each rendered frame to a sink.
+ */
+const FrameExporter: React.FC<{ exporterRef: React.RefObject<FrameExporterHandle | null> }> = ({ exporterRef }) => {
+  const get = useThree(state => state.get);
+
+  useEffect(() => {
+    // Advances the scene by exactly 1/fps per frame; resolves false if aborted part-way
+    const stepFrames = async (
+      { fps, duration }: { fps: number; duration: number },
+      { prepareFrame, onProgress, signal }: FrameStepCallbacks,
+      afterFrame: (frame: number, time: number) => Promise<void> | void
+    ) => {
+      const state = get();
+      const { clock } = state;
+      const total = Math.max(1, Math.round(duration * fps));
+      const step = 1 / fps;
+
+      state.setFrameloop('never');
+      // With the clock stopped, advance() hands useFrame exactly the timestamps we pass in
+      clock.stop();
+      let timestamp = clock.elapsedTime;
+      try {
+        for (let i = 0; i < total; i++) {
+          if (signal.aborted) return false;
+          await prepareFrame(i * step);
+          timestamp += step;
+          advance(timestamp);
+          await afterFrame(i, i * step);
+          onProgress(i + 1, total);
+        }
+        return true;
+      } finally {
+        clock.autoStart = true;
+        clock.start();
+        state.setFrameloop('always');
+      }
+    };
+
+    exporterRef.current = {
+      render: async (options, callbacks) => {
+        const { gl, camera } = get();
+        const sink = createFrameSink(options);
+        const prevPixelRatio = gl.getPixelRatio();
+        const prevSize = gl.getSize(new THREE.Vector2());
+
+        const setAspect = (aspect: number) => {
+          if (camera instanceof THREE.PerspectiveCamera) {
+            camera.aspect = aspect;
+            camera.updateProjectionMatrix();
+          }
+        };
+
+        gl.setPixelRatio(1);
+        gl.setSize(options.width, options.height, false);
+        setAspect(options.width / options.height);
+
+        try {
+          const completed = await stepFrames(options, callbacks, () => sink.addFrame(gl.domElement));
+          if (!completed) {
+            sink.abort();
+            return null;
+          }
+          return await sink.finish();
+        } catch (error) {
+          sink.abort();
+          throw error;
+        } finally {
+          gl.setPixelRatio(prevPixelRatio);
+          gl.setSize(prevSize.x, prevSize.y, false);
+          setAspect(prevSize.x / prevSize.y);
+        }
+      },
+      record: (options, { onFrame, ...callbacks }) => stepFrames(options, callbacks, onFrame),
+    };
+    return () => {
+      exporterRef.current = null;
+    };
+  }, [get, exporterRef]);
+
+  return null;
+};
+
+// Resolves once React has committed pending state and the browser has had a frame to flush it.
+const waitForCommit = () => new Promise<void>(resolve => requestAnimationFrame(() => setTimeout(resolve, 0)));
+
+/**
+ * Visual editor for the falloff curve: drag points (the center and edge points only move
+ * vertically), double-click the graph to add one, and shape the spans next to the selected
+ * point with their handles, segment type or exact values. Presets replace the whole curve.
  */
-const BezierEditor: React.FC<{
-  p1x: number;
-  p1y: number;
-  p2x: number;
-  p2y: number;
-  startY: number;
-  endY: number;
-  onChange: (p1x: number, p1y: number, p2x: number, p2y: number) => void;
-  onAnchorChange: (startY: number, endY: number) => void;
+const CurveEditor: React.FC<{
+  points: CurvePoint[];
+  onChange: (points: CurvePoint[]) => void;
   minScale: number;
   maxScale: number;
+  label?: string;
   accentColor: string;
   accentBorder: string;
-}> = ({ p1x, p1y, p2x, p2y, startY, endY, onChange, onAnchorChange, minScale, maxScale, accentColor, accentBorder }) => {
+  accentShadow: string;
+}> = ({ points, onChange, minScale, maxScale, label = 'Falloff Curve', accentColor, accentBorder, accentShadow }) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [activeHandle, setActiveHandle] = useState<number | null>(null);
+  const [selected, setSelected] = useState(0);
+  // A point, or one of a Bezier span's two handles
+  const [active, setActive] = useState<{ point: number } | { span: number; handle: 0 | 1 } | null>(null);
+  const last = points.length - 1;
+  const index = Math.min(selected, last);
+  const point = points[index];
+  const activePreset = CURVE_PRESETS.find(p => JSON.stringify(p.points) === JSON.stringify(points));
+  const buttonClass = "py-1.5 max-[960px]:py-2.5 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95 disabled:opacity-30";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+  const fieldClass = "w-full min-w-0 rounded-md border border-white/10 bg-neutral-800 px-1.5 py-1 text-[11px] max-[960px]:text-sm font-mono text-white focus:outline-none focus:border-white/30 disabled:opacity-30";
+
+  const pointerAt = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: 1 - clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const updatePoint = (i: number, patch: Partial<CurvePoint>) =>
+    onChange(points.map((p, j) => (j === i ? { ...p, ...patch } : p)));
+
+  // End points stay at the center and edge; the rest stay between their neighbours
+  const movePoint = (i: number, x: number, y: number) => {
+    const lo = i === 0 ? 0 : i === last ? 1 : points[i - 1].x + 0.01;
+    const hi = i === 0 ? 0 : i === last ? 1 : points[i + 1].x - 0.01;
+    updatePoint(i, { x: Math.min(hi, Math.max(lo, x)), y: clamp01(y) });
+  };
+
+  // Handle x is stored as a fraction of its span, which keeps the span from turning back
+  const moveHandle = (span: number, handle: 0 | 1, x: number, y: number) => {
+    const a = points[span];
+    const b = points[span + 1];
+    const handles: CurvePoint['handles'] = [...a.handles];
+    handles[handle * 2] = clamp01((x - a.x) / Math.max(1e-6, b.x - a.x));
+    handles[handle * 2 + 1] = clamp01(y);
+    updatePoint(span, { handles });
+  };
 
   const handlePointerMove = (e: React.PointerEvent) => {
-    if (activeHandle === null || !svgRef.current) return;
+    if (active === null || !svgRef.current) return;
     e.preventDefault();
-    const rect = svgRef.current.getBoundingClientRect();
-    const rawX = clamp01((e.clientX - rect.left) / rect.width);
-    const y = 1 - clamp01((e.clientY - rect.top) / rect.height);
-    const minEdge = 0.01;
-    const gap = 0.02;
-
-    if (activeHandle === 1) {
-      const x = Math.max(minEdge, Math.min(p2x - gap, rawX));
-      onChange(x, y, p2x, p2y);
-    } else if (activeHandle === 2) {
-      const x = Math.min(1 - minEdge, Math.max(p1x + gap, rawX));
-      onChange(p1x, p1y, x, y);
-    } else if (activeHandle === 0) {
-      // Start anchor - only Y moves
-      onAnchorChange(y, endY);
-    } else if (activeHandle === 3) {
-      // End anchor - only Y moves
-      onAnchorChange(startY, y);
-    }
+    const { x, y } = pointerAt(e);
+    if ('point' in active) movePoint(active.point, x, y);
+    else moveHandle(active.span, active.handle, x, y);
+  };
+
+  const handlePointerUp = () => setActive(null);
+
+  const addPoint = (x: number) => {
+    if (points.length >= MAX_CURVE_POINTS) return;
+    const next = insertPoint(points, x);
+    if (next.length === points.length) return;
+    onChange(next);
+    setSelected(next.findIndex(p => p.x === x));
+  };
+
+  const removePoint = () => {
+    if (index === 0 || index === last) return;
+    onChange(points.filter((_, i) => i !== index));
+    setSelected(index - 1);
+  };
+
+  // Switching to Bezier starts from a straight span so the shape does not jump
+  const setSegment = (segment: CurveSegment) => {
+    const y = point.y;
+    const nextY = points[index + 1].y;
+    updatePoint(index, {
+      segment,
+      handles: segment === 'bezier' && point.segment !== 'bezier'
+        ? [1 / 3, y + (nextY - y) / 3, 2 / 3, y + (nextY - y) * 2 / 3]
+        : point.handles,
+    });
+  };
+
+  const setNumber = (key: 'x' | 'y', raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isFinite(value)) return;
+    if (key === 'x') movePoint(index, value, point.y);
+    else movePoint(index, point.x, value);
   };
 
-  const handlePointerUp = () => setActiveHandle(null);
-  
   const path = useMemo(() => {
-    const steps = 30;
-    let d = `M 0,${(1 - startY) * 100}`;
+    const steps = 120;
+    let d = `M 0,${(1 - sampleCurve(points, 0)) * 100}`;
     for (let i = 1; i <= steps; i++) {
       const t = i / steps;
-      const y = sampleBezierY(t, p1x, p1y, p2x, p2y, startY, endY);
-      d += ` L ${t * 100},${(1 - y) * 100}`;
+      d += ` L ${t * 100},${(1 - sampleCurve(points, t)) * 100}`;
     }
     return d;
-  }, [p1x, p1y, p2x, p2y, startY, endY]);
+  }, [points]);
+
+  // Handles of the Bezier spans on either side of the selected point
+  const handles = [index - 1, index].flatMap(span => {
+    if (span < 0 || span >= last || points[span].segment !== 'bezier') return [];
+    const a = points[span];
+    const b = points[span + 1];
+    const [h1x, h1y, h2x, h2y] = a.handles;
+    return [
+      { span, handle: 0 as const, x: a.x + h1x * (b.x - a.x), y: h1y, anchor: a },
+      { span, handle: 1 as const, x: a.x + h2x * (b.x - a.x), y: h2y, anchor: b },
+    ];
+  });
 
   return (
-    <div className="mt-8 relative bg-black/40 rounded-2xl p-5 border border-white/5 overflow-visible select-none shadow-inner">
-      <div className="flex justify-between items-center mb-4">
-        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-widest text-neutral-500">Falloff Curve</label>
+    <div className="mt-8 relative bg-black/40 rounded-2xl p-5 border border-white/5 overflow-visible select-none shadow-inner space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-widest text-neutral-500">{label}</label>
+        <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{activePreset?.label ?? 'Custom'}</span>
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {CURVE_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => { onChange(preset.points); setSelected(0); }}
+            className={buttonClass}
+            style={activePreset === preset ? activeStyle : undefined}
+          >
+            {preset.label}
+          </button>
+        ))}
       </div>
       <div className="relative group">
         <svg
@@ -571,75 +1499,125 @@ const BezierEditor: React.FC<{
           preserveAspectRatio="xMidYMid meet"
           className="w-full -mx-[-3px] h-[190px] max-[960px]:h-[222px] cursor-crosshair touch-none overflow-visible"
           style={{ touchAction: 'none' }}
-          onPointerMove={(e) => { if (activeHandle !== null) handlePointerMove(e); }}
+          onPointerMove={(e) => { if (active !== null) handlePointerMove(e); }}
           onPointerUp={handlePointerUp}
           onPointerLeave={handlePointerUp}
           onPointerCancel={handlePointerUp}
+          onDoubleClick={(e) => addPoint(pointerAt(e).x)}
         >
           {/* Grid lines */}
           <line x1="0" y1="50" x2="100" y2="50" stroke="rgba(255,255,255,0.05)" strokeWidth="0.5" />
           <line x1="25" y1="0" x2="25" y2="100" stroke="rgba(255,255,255,0.03)" strokeWidth="0.5" />
           <line x1="50" y1="0" x2="50" y2="100" stroke="rgba(255,255,255,0.05)" strokeWidth="0.5" />
           <line x1="75" y1="0" x2="75" y2="100" stroke="rgba(255,255,255,0.03)" strokeWidth="0.5" />
-          
+
           {/* Guide lines to handles */}
-          <line x1="0" y1={(1 - startY) * 100} x2={p1x * 100} y2={(1 - p1y) * 100} stroke={accentBorder} strokeWidth="1" strokeDasharray="3" />
-          <line x1="100" y1={(1 - endY) * 100} x2={p2x * 100} y2={(1 - p2y) * 100} stroke={accentBorder} strokeWidth="1" strokeDasharray="3" />
+          {handles.map(h => (
+            <line key={`${h.span}-${h.handle}-guide`} x1={h.anchor.x * 100} y1={(1 - h.anchor.y) * 100} x2={h.x * 100} y2={(1 - h.y) * 100} stroke={accentBorder} strokeWidth="1" strokeDasharray="3" />
+          ))}
 
-          {/* Bezier Path */}
+          {/* Curve Path */}
           <path d={path} fill="none" stroke={accentColor} strokeWidth="3" strokeLinecap="round" />
 
-          {/* Draggable Anchors */}
-          <circle
-            cx="0" cy={(1 - startY) * 100} r="5"
-            fill="#ffffff"
-            stroke={accentColor}
-            strokeWidth="1"
-            className="cursor-grab active:cursor-grabbing transition-colors duration-200 shadow-xl pointer-events-none"
-          />
-          <circle cx="0" cy={(1 - startY) * 100} r="20" fill="transparent" className="cursor-grab touch-none" style={{ touchAction: 'none' }} onPointerDown={(e) => { e.stopPropagation(); e.preventDefault(); setActiveHandle(0); }} />
-          
-          <circle
-            cx="100" cy={(1 - endY) * 100} r="5"
-            fill="#ffffff"
-            stroke={accentColor}
-            strokeWidth="1"
-            className="cursor-grab active:cursor-grabbing transition-colors duration-200 shadow-xl pointer-events-none"
-          />
-          <circle cx="100" cy={(1 - endY) * 100} r="20" fill="transparent" className="cursor-grab touch-none" style={{ touchAction: 'none' }} onPointerDown={(e) => { e.stopPropagation(); e.preventDefault(); setActiveHandle(3); }} />
+          {/* Draggable Points */}
+          {points.map((p, i) => (
+            <g key={i}>
+              <circle
+                cx={p.x * 100} cy={(1 - p.y) * 100} r={i === index ? 6 : 4.5}
+                fill={i === index ? accentColor : '#ffffff'}
+                stroke={i === index ? '#ffffff' : accentColor}
+                strokeWidth="1"
+                className="transition-colors duration-200 shadow-xl pointer-events-none"
+              />
+              <circle
+                cx={p.x * 100} cy={(1 - p.y) * 100} r="12" fill="transparent"
+                className="cursor-grab touch-none" style={{ touchAction: 'none' }}
+                onPointerDown={(e) => { e.stopPropagation(); e.preventDefault(); setSelected(i); setActive({ point: i }); }}
+                onDoubleClick={(e) => e.stopPropagation()}
+              />
+            </g>
+          ))}
 
           {/* Interactive Handles */}
-          <circle
-            cx={p1x * 100} cy={(1 - p1y) * 100} r="5"
-            fill="#ffffff"
-            stroke={accentColor}
-            strokeWidth="1"
-            className="cursor-grab active:cursor-grabbing transition-colors duration-200 shadow-xl pointer-events-none"
-          />
-          {/* Invisible hit area for handle 1 - larger on mobile (r="20" = 20px touch target) */}
-          <circle cx={p1x * 100} cy={(1 - p1y) * 100} r="20" fill="transparent" className="cursor-grab touch-none" style={{ touchAction: 'none' }} onPointerDown={(e) => { e.stopPropagation(); e.preventDefault(); setActiveHandle(1); }} />
-
-          <circle
-            cx={p2x * 100} cy={(1 - p2y) * 100} r="5"
-            fill="#ffffff"
-            stroke={accentColor}
-            strokeWidth="1"
-            className="cursor-grab active:cursor-grabbing transition-colors duration-200 shadow-xl pointer-events-none"
-          />
-          {/* Invisible hit area for handle 2 - larger on mobile (r="20" = 20px touch target) */}
-          <circle cx={p2x * 100} cy={(1 - p2y) * 100} r="20" fill="transparent" className="cursor-grab touch-none" style={{ touchAction: 'none' }} onPointerDown={(e) => { e.stopPropagation(); e.preventDefault(); setActiveHandle(2); }} />
+          {handles.map(h => (
+            <g key={`${h.span}-${h.handle}`}>
+              <rect
+                x={h.x * 100 - 3.5} y={(1 - h.y) * 100 - 3.5} width="7" height="7"
+                fill="#ffffff" stroke={accentColor} strokeWidth="1"
+                className="pointer-events-none"
+              />
+              <circle
+                cx={h.x * 100} cy={(1 - h.y) * 100} r="12" fill="transparent"
+                className="cursor-grab touch-none" style={{ touchAction: 'none' }}
+                onPointerDown={(e) => { e.stopPropagation(); e.preventDefault(); setActive({ span: h.span, handle: h.handle }); }}
+                onDoubleClick={(e) => e.stopPropagation()}
+              />
+            </g>
+          ))}
         </svg>
       </div>
-      <div className="flex justify-between mt-4 text-[8px] max-[960px]:text-xs font-mono text-neutral-600 uppercase tracking-widest px-1">
+      <div className="flex justify-between text-[8px] max-[960px]:text-xs font-mono text-neutral-600 uppercase tracking-widest px-1">
         <div className="flex flex-col">
           <span>CENTER</span>
-          <span className="text-neutral-500">{(minScale + startY * (maxScale - minScale)).toFixed(2)}x</span>
+          <span className="text-neutral-500">{(minScale + points[0].y * (maxScale - minScale)).toFixed(2)}x</span>
         </div>
         <div className="flex flex-col text-right">
           <span>EDGE</span>
-          <span className="text-neutral-500">{(minScale + endY * (maxScale - minScale)).toFixed(2)}x</span>
+          <span className="text-neutral-500">{(minScale + points[last].y * (maxScale - minScale)).toFixed(2)}x</span>
         </div>
       </div>
+
+      <div className="space-y-3 rounded-xl border border-white/5 bg-black/30 p-4">
+        <div className="flex justify-between items-center">
+          <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Point {index + 1} of {points.length}</label>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => addPoint(index < last ? (point.x + points[index + 1].x) / 2 : (points[index - 1].x + point.x) / 2)}
+              disabled={points.length >= MAX_CURVE_POINTS}
+              className="text-neutral-500 hover:text-white transition disabled:opacity-30"
+              title="Add Point (or double-click the curve)"
+            >
+              <Plus size={14} />
+            </button>
+            <button
+              onClick={removePoint}
+              disabled={index === 0 || index === last}
+              className="text-neutral-500 hover:text-white transition disabled:opacity-30"
+              title="Remove Point"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2 text-[10px] max-[960px]:text-sm uppercase font-bold tracking-wider text-neutral-500">
+          <label className="flex items-center gap-1.5">
+            X
+            <input
+              type="number" min={0} max={1} step={0.01} value={Number(point.x.toFixed(3))}
+              onChange={(e) => setNumber('x', e.target.value)}
+              disabled={index === 0 || index === last}
+              className={fieldClass}
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            Y
+            <input
+              type="number" min={0} max={1} step={0.01} value={Number(point.y.toFixed(3))}
+              onChange={(e) => setNumber('y', e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+        </div>
+        {index < last && (
+          <div className="grid grid-cols-3 gap-2">
+            {CURVE_SEGMENTS.map(({ segment, label }) => (
+              <button key={segment} onClick={() => setSegment(segment)} className={buttonClass} style={point.segment === segment ? activeStyle : undefined}>
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -747,64 +1725,1893 @@ const ScaleRangeSlider: React.FC<{
   );
 };
 
-const App: React.FC = () => {
-  const [baseSpheres, setBaseSpheres] = useState<SphereData[]>(() => generateInitialSpheres(INITIAL_SPACING));
-  const [opacity, setOpacity] = useState(0.5);
-  const [curveStartY, setCurveStartY] = useState(1);
-  const [curveEndY, setCurveEndY] = useState(0);
-  const [isDynamic, setIsDynamic] = useState(true);
-  const [speed, setSpeed] = useState(3.0);
-  const [showFocalPoint, setShowFocalPoint] = useState(false);
+/**
+ * Labelled single-value slider matching the sidebar styling.
+ */
+const RangeControl: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  format?: (value: number) => string;
+  disabled?: boolean;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+}> = ({ label, value, min, max, step, onChange, format, disabled, accentColor, accentSoft, accentBorder }) => (
+  <div className="space-y-3">
+    <div className="flex justify-between items-center">
+      <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">{label}</label>
+      <span className="text-[10px] max-[960px]:text-sm font-mono px-2 py-0.5 rounded border" style={{ color: accentColor, background: accentSoft, borderColor: accentBorder }}>
+        {format ? format(value) : value}
+      </span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step} value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      disabled={disabled}
+      className="w-full h-2 max-[960px]:h-4 bg-neutral-800 rounded-lg appearance-none cursor-pointer disabled:opacity-30 transition-all touch-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 max-[960px]:[&::-webkit-slider-thumb]:w-7 max-[960px]:[&::-webkit-slider-thumb]:h-7 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-lg"
+      style={{ accentColor, touchAction: 'none' }}
+    />
+  </div>
+);
+
+/**
+ * Multi-stop tint gradient: palettes, a preview bar whose markers drag along it (click the
+ * bar to add a stop), HSV and alpha for the selected stop, and what positions instances on
+ * it. The Hues palette keeps the classic pair driven by the two hue sliders.
+ */
+const GradientEditor: React.FC<{
+  stops: GradientStop[] | null;
+  onChange: (stops: GradientStop[] | null) => void;
+  hue: number;
+  hue2: number;
+  onHueChange: (hue: number) => void;
+  onHue2Change: (hue: number) => void;
+  driver: GradientDriver;
+  onDriverChange: (driver: GradientDriver) => void;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({
+  stops, onChange, hue, hue2, onHueChange, onHue2Change, driver, onDriverChange,
+  accentColor, accentSoft, accentBorder, accentShadow,
+}) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState(0);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const effective = stops ?? twoHueStops(hue, hue2);
+  const stop = effective[Math.min(selected, effective.length - 1)];
+  const buttonClass = "py-1.5 max-[960px]:py-2.5 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+  const activePalette = GRADIENT_PALETTES.find(p => JSON.stringify(p.stops) === JSON.stringify(stops));
+
+  const positionAt = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return clamp01((clientX - rect.left) / rect.width);
+  };
+
+  const updateStop = (index: number, patch: Partial<GradientStop>) =>
+    onChange(effective.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  // New stops take the color the gradient already has at that position
+  const addStop = (position: number) => {
+    if (effective.length >= MAX_GRADIENT_STOPS) return;
+    const sorted = sortStops(effective);
+    const after = sorted.find(s => s.position >= position) ?? sorted[sorted.length - 1];
+    const before = [...sorted].reverse().find(s => s.position <= position) ?? sorted[0];
+    const span = after.position - before.position;
+    const f = span > 0 ? (position - before.position) / span : 0;
+    const lerp = (a: number, b: number) => a + (b - a) * f;
+    onChange([...effective, {
+      position,
+      hue: lerp(before.hue, after.hue),
+      saturation: lerp(before.saturation, after.saturation),
+      value: lerp(before.value, after.value),
+      alpha: lerp(before.alpha, after.alpha),
+    }]);
+    setSelected(effective.length);
+  };
+
+  const removeStop = () => {
+    if (effective.length <= 2) return;
+    onChange(effective.filter((_, i) => i !== selected));
+    setSelected(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Color Gradient</label>
+        <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{activePalette?.label ?? 'Custom'}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {GRADIENT_PALETTES.map(palette => (
+          <button
+            key={palette.label}
+            onClick={() => { onChange(palette.stops); setSelected(0); }}
+            className={buttonClass}
+            style={activePalette === palette ? activeStyle : undefined}
+          >
+            {palette.label}
+          </button>
+        ))}
+      </div>
+
+      <div
+        ref={barRef}
+        onPointerDown={(e) => {
+          e.preventDefault();
+          const index = Number((e.target as HTMLElement).dataset.stop);
+          if (Number.isInteger(index)) {
+            setSelected(index);
+            setDragging(index);
+            e.currentTarget.setPointerCapture(e.pointerId);
+          } else {
+            addStop(positionAt(e.clientX));
+          }
+        }}
+        onPointerMove={(e) => {
+          if (dragging !== null) updateStop(dragging, { position: positionAt(e.clientX) });
+        }}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+        className="relative h-6 max-[960px]:h-8 rounded-full cursor-copy select-none touch-none"
+        style={{
+          backgroundImage: `${gradientCss(effective)}, repeating-conic-gradient(#404040 0% 25%, #262626 0% 50%)`,
+          backgroundSize: 'auto, 12px 12px',
+          touchAction: 'none',
+        }}
+        title={effective.length < MAX_GRADIENT_STOPS ? 'Click to add a stop' : undefined}
+      >
+        {effective.map((s, i) => (
+          <div
+            key={i}
+            data-stop={i}
+            className="absolute w-4 h-7 max-[960px]:w-5 max-[960px]:h-9 rounded-md border-2 shadow-lg -translate-x-1/2 top-1/2 -translate-y-1/2 cursor-ew-resize"
+            style={{
+              left: `${s.position * 100}%`,
+              borderColor: i === selected ? '#fff' : 'rgba(255,255,255,0.4)',
+              background: stopCss(s),
+            }}
+          />
+        ))}
+      </div>
+
+      {stops === null ? (
+        <div className="space-y-6">
+          <HueSlider
+            hue={hue}
+            onHueChange={onHueChange}
+            label="Center Hue"
+            accentColor={accentColor}
+            accentSoft={accentSoft}
+            accentBorder={accentBorder}
+          />
+          <div className="pt-4 border-t border-white/5">
+            <HueSlider
+              hue={hue2}
+              onHueChange={onHue2Change}
+              label="Distance Hue"
+              accentColor={`hsl(${hue2}deg, 80%, 60%)`}
+              accentSoft={`hsla(${hue2}deg, 80%, 60%, 0.1)`}
+              accentBorder={`hsla(${hue2}deg, 80%, 60%, 0.2)`}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 rounded-xl border border-white/5 bg-black/30 p-4">
+          <div className="flex justify-between items-center">
+            <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Stop {Math.min(selected, effective.length - 1) + 1}</label>
+            <button
+              onClick={removeStop}
+              disabled={effective.length <= 2}
+              className="text-neutral-500 hover:text-white transition disabled:opacity-30"
+              title="Remove Stop"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          {([
+            ['position', 'Position', 0, 1, 0.01],
+            ['hue', 'Hue', 0, 360, 1],
+            ['saturation', 'Saturation', 0, 1, 0.01],
+            ['value', 'Value', 0, 1, 0.01],
+            ['alpha', 'Alpha', 0, 1, 0.01],
+          ] as const).map(([key, label, min, max, step]) => (
+            <RangeControl
+              key={key}
+              label={label} value={stop[key]} min={min} max={max} step={step}
+              onChange={(v) => updateStop(Math.min(selected, effective.length - 1), { [key]: v })}
+              format={(v) => (key === 'hue' ? `${v.toFixed(0)}°` : v.toFixed(2))}
+              accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Gradient Driver</label>
+        <div className="grid grid-cols-2 gap-2">
+          {GRADIENT_DRIVERS.map(({ driver: d, label }) => (
+            <button key={d} onClick={() => onDriverChange(d)} className={buttonClass} style={driver === d ? activeStyle : undefined}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Instance primitive (including a user GLB), its orientation mode and stretch.
+ */
+const PrimitivePanel: React.FC<{
+  primitive: Primitive;
+  onPrimitiveChange: (primitive: Primitive) => void;
+  orientation: Orientation;
+  onOrientationChange: (orientation: Orientation) => void;
+  stretch: number;
+  onStretchChange: (stretch: number) => void;
+  customName: string | null;
+  onUploadGlb: (file: File) => void;
+  error: string | null;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({
+  primitive, onPrimitiveChange, orientation, onOrientationChange, stretch, onStretchChange,
+  customName, onUploadGlb, error, accentColor, accentSoft, accentBorder, accentShadow,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass = "py-2 max-[960px]:py-3 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+
+  return (
+    <div className="group space-y-4 mb-8">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Primitive</label>
+        {primitive === 'custom' && customName && (
+          <span className="max-w-[60%] truncate text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{customName}</span>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {PRIMITIVES.map(({ primitive: p, label }) => (
+          <button
+            key={p}
+            onClick={() => (p === 'custom' && !customName ? fileInputRef.current?.click() : onPrimitiveChange(p))}
+            className={buttonClass}
+            style={primitive === p ? activeStyle : undefined}
+          >
+            {label}
+          </button>
+        ))}
+        <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} flex items-center justify-center gap-1`} title="Load a GLB mesh">
+          <Upload size={12} /> GLB
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".glb,model/gltf-binary"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUploadGlb(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-[11px] max-[960px]:text-sm text-red-400">{error}</p>}
+
+      <div className="space-y-3">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Orientation</label>
+        <div className="flex gap-2">
+          {ORIENTATIONS.map(({ orientation: o, label }) => (
+            <button key={o} onClick={() => onOrientationChange(o)} className={`flex-1 ${buttonClass}`} style={orientation === o ? activeStyle : undefined}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <RangeControl
+        label="Stretch" value={stretch} min={0} max={2} step={0.05}
+        onChange={onStretchChange}
+        format={(v) => v.toFixed(2)}
+        accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+      />
+    </div>
+  );
+};
+
+/**
+ * Bounce-house physics: the on/off switch, the spring and floor controls, and the curve that
+ * shapes how hard focal points push (or pull) from their center to the edge of their reach.
+ */
+const PhysicsPanel: React.FC<{
+  physics: PhysicsSettings | null;
+  onChange: (physics: PhysicsSettings | null) => void;
+  gpuScaling: boolean;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({ physics, onChange, gpuScaling, accentColor, accentSoft, accentBorder, accentShadow }) => {
+  const buttonClass = "px-3 py-1.5 max-[960px]:py-2.5 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95";
+  const controls: { key: keyof typeof PHYSICS_RANGES; label: string; step: number; format: (v: number) => string }[] = [
+    { key: 'stiffness', label: 'Stiffness', step: 0.5, format: (v) => v.toFixed(1) },
+    { key: 'damping', label: 'Damping', step: 0.1, format: (v) => v.toFixed(1) },
+    { key: 'gravity', label: 'Gravity', step: 0.5, format: (v) => v.toFixed(1) },
+    { key: 'bounce', label: 'Floor Bounce', step: 0.01, format: (v) => `${Math.round(v * 100)}%` },
+    { key: 'force', label: 'Focal Force', step: 1, format: (v) => (v === 0 ? 'Off' : `${v > 0 ? 'Push' : 'Pull'} ${Math.abs(v).toFixed(0)}`) },
+  ];
+
+  return (
+    <div className="group space-y-4 mb-8">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Physics</label>
+        <button
+          onClick={() => onChange(physics ? null : createPhysicsSettings())}
+          className={buttonClass}
+          style={physics ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+          title={physics ? 'Return every sphere to its lattice home' : 'Spring every sphere to its home and let focal points push them around'}
+        >
+          {physics ? 'On' : 'Off'}
+        </button>
+      </div>
+      {physics && (
+        <>
+          {gpuScaling && (
+            <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Physics runs on the CPU, so GPU scaling is paused while it is on.</p>
+          )}
+          {controls.map(({ key, label, step, format }) => (
+            <RangeControl
+              key={key}
+              label={label} value={physics[key]} min={PHYSICS_RANGES[key].min} max={PHYSICS_RANGES[key].max} step={step}
+              onChange={(v) => onChange({ ...physics, [key]: v })}
+              format={format}
+              accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+            />
+          ))}
+          <CurveEditor
+            points={physics.forceCurve}
+            onChange={(forceCurve) => onChange({ ...physics, forceCurve })}
+            minScale={0}
+            maxScale={1}
+            label="Force Curve"
+            accentColor={accentColor}
+            accentBorder={accentBorder}
+            accentShadow={accentShadow}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Named preset slots (stored in localStorage) plus JSON file import/export.
+ */
+const PresetPanel: React.FC<{
+  settings: SceneSettings;
+  onApply: (settings: SceneSettings) => void;
+  accentColor: string;
+  accentBorder: string;
+}> = ({ settings, onApply, accentColor, accentBorder }) => {
+  const [slots, setSlots] = useState<ScenePreset[]>(() => loadPresetSlots());
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const preset = createPreset(name, settings);
+    setSlots(savePresetSlot(preset));
+    setName('');
+    setStatus(`Saved "${preset.name}"`);
+  };
+
+  const handleLoad = (preset: ScenePreset) => {
+    onApply(preset.settings);
+    setStatus(`Loaded "${preset.name}"`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = await readPresetFile(file);
+      onApply(preset.settings);
+      setSlots(savePresetSlot(preset));
+      setStatus(`Imported "${preset.name}"`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not import preset.');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    writeSceneToLocation(settings);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setStatus('Share link copied');
+    } catch {
+      setStatus('Share link is in the address bar');
+    }
+  };
+
+  const iconButton = "flex items-center justify-center rounded-lg border border-white/10 bg-neutral-800 text-neutral-400 transition hover:text-white hover:border-white/30 active:scale-95";
+
+  return (
+    <div className="group space-y-4 mb-8">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Presets</label>
+        <div className="flex gap-2">
+          <button onClick={handleCopyLink} className={`${iconButton} w-7 h-7 max-[960px]:w-9 max-[960px]:h-9`} title="Copy Share Link">
+            <Link size={14} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={`${iconButton} w-7 h-7 max-[960px]:w-9 max-[960px]:h-9`} title="Import JSON">
+            <Upload size={14} />
+          </button>
+          <button onClick={() => downloadPreset(createPreset(name || 'scene', settings))} className={`${iconButton} w-7 h-7 max-[960px]:w-9 max-[960px]:h-9`} title="Export JSON">
+            <Download size={14} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="Preset name"
+          className="flex-1 min-w-0 rounded-lg border border-white/10 bg-neutral-800 px-3 py-2 text-xs max-[960px]:text-base text-white placeholder:text-neutral-600 focus:outline-none focus:border-white/30"
+        />
+        <button
+          onClick={handleSave}
+          className="flex items-center justify-center px-3 rounded-lg border text-white transition active:scale-95"
+          style={{ background: accentColor, borderColor: accentBorder }}
+          title="Save Preset"
+        >
+          <Save size={14} />
+        </button>
+      </div>
+      {slots.length > 0 && (
+        <ul className="space-y-1">
+          {slots.map(preset => (
+            <li key={preset.name} className="flex items-center gap-2">
+              <button
+                onClick={() => handleLoad(preset)}
+                className="flex-1 min-w-0 truncate text-left px-3 py-1.5 text-xs max-[960px]:text-base rounded-lg bg-neutral-800/60 text-neutral-300 hover:text-white hover:bg-neutral-800 transition"
+                title={`Saved ${new Date(preset.savedAt).toLocaleString()}`}
+              >
+                {preset.name}
+              </button>
+              <button onClick={() => setSlots(deletePresetSlot(preset.name))} className="text-neutral-600 hover:text-white transition" title="Delete Preset">
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status && <p className="text-[11px] max-[960px]:text-sm text-neutral-500">{status}</p>}
+    </div>
+  );
+};
+
+/**
+ * Undo/redo buttons and, when opened, the list of recorded steps; clicking a step jumps to it.
+ */
+const HistoryPanel: React.FC<{
+  history: EditHistory;
+  showList: boolean;
+  onToggleList: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+}> = ({ history, showList, onToggleList, onUndo, onRedo, onJump, accentColor, accentSoft, accentBorder }) => {
+  const iconButton = "flex items-center justify-center w-7 h-7 max-[960px]:w-9 max-[960px]:h-9 rounded-lg border border-white/10 bg-neutral-800 text-neutral-400 transition hover:text-white hover:border-white/30 active:scale-95 disabled:opacity-30 disabled:pointer-events-none";
+  const { entries, index } = history;
+
+  return (
+    <div className="group space-y-4 mb-8">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">History</label>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={index === 0} className={iconButton} title="Undo (Ctrl/Cmd+Z)">
+            <Undo2 size={14} />
+          </button>
+          <button onClick={onRedo} disabled={index === entries.length - 1} className={iconButton} title="Redo (Shift+Ctrl/Cmd+Z)">
+            <Redo2 size={14} />
+          </button>
+          <button
+            onClick={onToggleList}
+            className={iconButton}
+            style={showList ? { color: accentColor, background: accentSoft, borderColor: accentBorder } : undefined}
+            title="Show History"
+          >
+            <History size={14} />
+          </button>
+        </div>
+      </div>
+      {showList && (
+        <ul className="max-h-48 overflow-y-auto space-y-1">
+          {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+            <li key={entry.id}>
+              <button
+                onClick={() => onJump(i)}
+                className={`w-full truncate text-left px-3 py-1.5 text-xs max-[960px]:text-base rounded-lg transition hover:bg-neutral-800 ${i > index ? 'text-neutral-600' : 'text-neutral-300 hover:text-white'}`}
+                style={i === index ? { color: accentColor, background: accentSoft } : undefined}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Motion model picker and parameters for one focal point, including the waypoint
+ * list for authored spline paths.
+ */
+const MotionEditor: React.FC<{
+  index: number;
+  motion: FocalMotion;
+  onChange: (motion: FocalMotion) => void;
+  onAddWaypoint: () => void;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({ index, motion, onChange, onAddWaypoint, accentColor, accentSoft, accentBorder, accentShadow }) => {
+  const model = MOTION_MODELS[motion.kind];
+  const fieldClass = "w-full min-w-0 rounded-md border border-white/10 bg-neutral-800 px-1.5 py-1 text-[11px] max-[960px]:text-sm font-mono text-white focus:outline-none focus:border-white/30";
+
+  const setKind = (kind: MotionKind) => {
+    if (kind === motion.kind) return;
+    onChange({ ...createFocalMotion(kind), path: motion.path });
+  };
+
+  const setWaypoint = (pointIndex: number, axis: number, value: number) => {
+    if (!Number.isFinite(value)) return;
+    const path = motion.path.map((p, i) => {
+      if (i !== pointIndex) return p;
+      const next = [...p] as FocalMotion['path'][number];
+      next[axis] = Math.min(1, Math.max(-1, value));
+      return next;
+    });
+    onChange({ ...motion, path });
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-white/5 bg-black/30 p-4">
+      <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Center {index + 1} Motion</label>
+      <div className="grid grid-cols-3 gap-2">
+        {MOTION_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => setKind(kind)}
+            className="py-1.5 max-[960px]:py-2.5 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+            style={motion.kind === kind ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+          >
+            {MOTION_MODELS[kind].label}
+          </button>
+        ))}
+      </div>
+      {model.params.map(spec => (
+        <RangeControl
+          key={spec.key}
+          label={spec.label}
+          value={motion.params[spec.key] ?? spec.defaultValue}
+          min={spec.min} max={spec.max} step={spec.step}
+          onChange={(v) => onChange({ ...motion, params: { ...motion.params, [spec.key]: v } })}
+          format={(v) => (spec.step >= 1 ? v.toFixed(0) : v.toFixed(2))}
+          accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+        />
+      ))}
+      {motion.kind === 'spline' && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Waypoints</span>
+            <button
+              onClick={onAddWaypoint}
+              disabled={motion.path.length >= MAX_PATH_POINTS}
+              className="flex items-center gap-1 text-[10px] uppercase font-bold tracking-wider text-neutral-400 hover:text-white transition disabled:opacity-30"
+              title="Add the center's current position as a waypoint"
+            >
+              <Plus size={12} /> Here
+            </button>
+          </div>
+          {motion.path.map((point, pointIndex) => (
+            <div key={pointIndex} className="flex items-center gap-1.5">
+              <span className="w-4 text-[10px] font-mono text-neutral-600">{pointIndex + 1}</span>
+              {point.map((value, axis) => (
+                <input
+                  key={axis}
+                  type="number" min={-1} max={1} step={0.05} value={Number(value.toFixed(3))}
+                  onChange={(e) => setWaypoint(pointIndex, axis, parseFloat(e.target.value))}
+                  className={fieldClass}
+                  title={['X', 'Y', 'Z'][axis]}
+                />
+              ))}
+              <button
+                onClick={() => onChange({ ...motion, path: motion.path.filter((_, i) => i !== pointIndex) })}
+                disabled={motion.path.length <= 2}
+                className="text-neutral-600 hover:text-white transition disabled:opacity-30"
+                title="Remove Waypoint"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Coordinates are relative to the bounds area (-1 to 1). Drag the marker and press Here to record a waypoint.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Per-center look: reach and strength multipliers, plus an optional curve and hue pair
+ * of its own. Turning an override on starts it from the current global values.
+ */
+const CenterStyleEditor: React.FC<{
+  index: number;
+  style: CenterStyle;
+  onChange: (style: CenterStyle) => void;
+  globalCurve: CurvePoint[];
+  globalHues: [number, number];
+  minScale: number;
+  maxScale: number;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({
+  index, style, onChange, globalCurve, globalHues, minScale, maxScale,
+  accentColor, accentSoft, accentBorder, accentShadow,
+}) => {
+  const buttonClass = "flex-1 py-1.5 max-[960px]:py-2.5 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+  const { curve, hues } = style;
+
+  return (
+    <div className="space-y-4 rounded-xl border border-white/5 bg-black/30 p-4">
+      <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Center {index + 1} Look</label>
+      <RangeControl
+        label="Radius" value={style.radius} min={0.1} max={3} step={0.05}
+        onChange={(radius) => onChange({ ...style, radius })}
+        format={(v) => `${v.toFixed(2)}x`}
+        accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+      />
+      <RangeControl
+        label="Strength" value={style.strength} min={0} max={3} step={0.05}
+        onChange={(strength) => onChange({ ...style, strength })}
+        format={(v) => `${v.toFixed(2)}x`}
+        accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange({ ...style, curve: curve ? null : globalCurve })}
+          className={buttonClass}
+          style={curve ? activeStyle : undefined}
+          title={curve ? 'Follow the global curve' : 'Give this center its own curve'}
+        >
+          Own Curve
+        </button>
+        <button
+          onClick={() => onChange({ ...style, hues: hues ? null : [...globalHues] })}
+          className={buttonClass}
+          style={hues ? activeStyle : undefined}
+          title={hues ? 'Follow the global hues' : 'Give this center its own hues'}
+        >
+          Own Hues
+        </button>
+      </div>
+      {curve && (
+        <CurveEditor
+          points={curve}
+          onChange={(points) => onChange({ ...style, curve: points })}
+          minScale={minScale}
+          maxScale={maxScale}
+          accentColor={accentColor}
+          accentBorder={accentBorder}
+          accentShadow={accentShadow}
+        />
+      )}
+      {hues && (
+        <div className="space-y-4">
+          <HueSlider
+            hue={hues[0]}
+            onHueChange={(h) => onChange({ ...style, hues: [h, hues[1]] })}
+            label="Center Hue"
+            accentColor={`hsl(${hues[0]}deg, 80%, 60%)`}
+            accentSoft={`hsla(${hues[0]}deg, 80%, 60%, 0.1)`}
+            accentBorder={`hsla(${hues[0]}deg, 80%, 60%, 0.2)`}
+          />
+          <HueSlider
+            hue={hues[1]}
+            onHueChange={(h) => onChange({ ...style, hues: [hues[0], h] })}
+            label="Distance Hue"
+            accentColor={`hsl(${hues[1]}deg, 80%, 60%)`}
+            accentSoft={`hsla(${hues[1]}deg, 80%, 60%, 0.1)`}
+            accentBorder={`hsla(${hues[1]}deg, 80%, 60%, 0.2)`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Settings for offline frame export: format, resolution, frame rate and duration.
+ */
+const ExportPanel: React.FC<{
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  onExport: () => void;
+  error: string | null;
+  accentColor: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({ options, onChange, onExport, error, accentColor, accentBorder, accentShadow }) => {
+  const fieldClass = "w-full rounded-lg border border-white/10 bg-neutral-800 px-2 py-1.5 text-xs max-[960px]:text-base text-white focus:outline-none focus:border-white/30";
+  const resolution = `${options.width}x${options.height}`;
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  const limit = exportLimitMessage(options);
+
+  return (
+    <div className="group space-y-4 mt-8 pt-6 border-t border-white/5">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Export</label>
+        <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{frameCount} frames</span>
+      </div>
+      <div className="flex gap-2">
+        {(['png', 'webm'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => onChange({ ...options, format })}
+            className="flex-1 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+            style={options.format === format ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+          >
+            {format === 'png' ? 'PNG Zip' : 'WebM'}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-[10px] uppercase font-bold tracking-wider text-neutral-500">
+        <label className="space-y-1">
+          <span>Size</span>
+          <select
+            value={resolution}
+            onChange={(e) => {
+              const preset = EXPORT_RESOLUTIONS.find(r => `${r.width}x${r.height}` === e.target.value);
+              if (preset) onChange({ ...options, width: preset.width, height: preset.height });
+            }}
+            className={fieldClass}
+          >
+            {EXPORT_RESOLUTIONS.map(r => <option key={r.label} value={`${r.width}x${r.height}`}>{r.label}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>FPS</span>
+          <select value={options.fps} onChange={(e) => onChange({ ...options, fps: parseInt(e.target.value, 10) })} className={fieldClass}>
+            {EXPORT_FPS.map(fps => <option key={fps} value={fps}>{fps}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>Seconds</span>
+          <input
+            type="number" min={0.5} max={120} step={0.5} value={options.duration}
+            onChange={(e) => onChange({ ...options, duration: Math.min(120, Math.max(0.5, parseFloat(e.target.value) || 0.5)) })}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+      {limit && <p className="text-[11px] max-[960px]:text-sm text-amber-400">{limit}</p>}
+      <button
+        onClick={onExport}
+        disabled={limit !== null}
+        className="w-full flex items-center justify-center gap-2 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all text-white active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+        style={{ background: accentColor, borderColor: accentBorder, boxShadow: accentShadow }}
+      >
+        <Film size={14} />
+        Render {options.width}×{options.height}
+      </button>
+      {error && <p className="text-[11px] max-[960px]:text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Geometry export of the current frame: format, scale threshold and, per format, lattice
+ * lines (GLB) or a watertight union (OBJ/STL) where the primitive allows it.
+ */
+const GeometryExportPanel: React.FC<{
+  options: MeshExportOptions;
+  primitive: Primitive;
+  onChange: (options: MeshExportOptions) => void;
+  onExport: () => void;
+  busy: boolean;
+  error: string | null;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({ options, primitive, onChange, onExport, busy, error, accentColor, accentSoft, accentBorder, accentShadow }) => {
+  const buttonClass = "flex-1 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95 disabled:opacity-40 disabled:pointer-events-none";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+  const glb = options.format === 'glb';
+  const union = !glb && supportsUnion(primitive);
+
+  return (
+    <div className="group space-y-4 mt-8 pt-6 border-t border-white/5">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Geometry</label>
+        <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">current frame</span>
+      </div>
+      <div className="flex gap-2">
+        {MESH_EXPORT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => onChange({ ...options, format })}
+            className={buttonClass}
+            style={options.format === format ? activeStyle : undefined}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange({ ...options, lines: !options.lines })}
+          disabled={!glb}
+          className={buttonClass}
+          style={glb && options.lines ? activeStyle : undefined}
+          title="Include the lattice lines as line segments"
+        >
+          Lines
+        </button>
+        <button
+          onClick={() => onChange({ ...options, union: !options.union })}
+          disabled={!union}
+          className={buttonClass}
+          style={union && options.union ? activeStyle : undefined}
+          title="Merge all instances into one closed surface for 3D printing"
+        >
+          Union
+        </button>
+      </div>
+      {!glb && !union && (
+        <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Union needs a built-in primitive: it merges each primitive's exact shape, which a loaded GLB mesh does not have. OBJ/STL bake every instance as is.</p>
+      )}
+      <RangeControl
+        label="Min Scale"
+        value={options.minScale}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(minScale) => onChange({ ...options, minScale })}
+        format={(v) => v.toFixed(2)}
+        accentColor={accentColor}
+        accentSoft={accentSoft}
+        accentBorder={accentBorder}
+      />
+      <button
+        onClick={onExport}
+        disabled={busy}
+        className="w-full flex items-center justify-center gap-2 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all text-white active:scale-95 disabled:opacity-60"
+        style={{ background: accentColor, borderColor: accentBorder, boxShadow: accentShadow }}
+      >
+        {busy ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+        Export {options.format.toUpperCase()}
+      </button>
+      {error && <p className="text-[11px] max-[960px]:text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Per-sphere data as CSV or JSON, for the current frame or a recorded range, and import of
+ * a point list that replaces the lattice.
+ */
+const PointCloudPanel: React.FC<{
+  options: PointCloudOptions;
+  onChange: (options: PointCloudOptions) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  error: string | null;
+  accentColor: string;
+  accentBorder: string;
+  accentShadow: string;
+}> = ({ options, onChange, onExport, onImport, error, accentColor, accentBorder, accentShadow }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fieldClass = "w-full rounded-lg border border-white/10 bg-neutral-800 px-2 py-1.5 text-xs max-[960px]:text-base text-white focus:outline-none focus:border-white/30";
+  const buttonClass = "flex-1 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95";
+  const activeStyle = { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow };
+  const frameCount = options.range ? Math.max(1, Math.round(options.duration * options.fps)) : 1;
+
+  return (
+    <div className="group space-y-4 mt-8 pt-6 border-t border-white/5">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Point Data</label>
+        <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{frameCount} {frameCount === 1 ? 'frame' : 'frames'}</span>
+      </div>
+      <div className="flex gap-2">
+        {(['csv', 'json'] as const).map(format => (
+          <button key={format} onClick={() => onChange({ ...options, format })} className={buttonClass} style={options.format === format ? activeStyle : undefined}>
+            {format}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {([false, true]).map(range => (
+          <button key={String(range)} onClick={() => onChange({ ...options, range })} className={buttonClass} style={options.range === range ? activeStyle : undefined}>
+            {range ? 'Range' : 'Frame'}
+          </button>
+        ))}
+      </div>
+      {options.range && (
+        <div className="grid grid-cols-2 gap-2 text-[10px] uppercase font-bold tracking-wider text-neutral-500">
+          <label className="space-y-1">
+            <span>FPS</span>
+            <select value={options.fps} onChange={(e) => onChange({ ...options, fps: parseInt(e.target.value, 10) })} className={fieldClass}>
+              {POINT_CLOUD_FPS.map(fps => <option key={fps} value={fps}>{fps}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>Seconds</span>
+            <input
+              type="number" min={0.1} max={60} step={0.1} value={options.duration}
+              onChange={(e) => onChange({ ...options, duration: Math.min(60, Math.max(0.1, parseFloat(e.target.value) || 0.1)) })}
+              className={fieldClass}
+            />
+          </label>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={onExport}
+          className="flex-1 flex items-center justify-center gap-2 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all text-white active:scale-95"
+          style={{ background: accentColor, borderColor: accentBorder, boxShadow: accentShadow }}
+        >
+          <Download size={14} />
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={`${buttonClass} flex items-center justify-center gap-2`}
+          title="Replace the spheres with points from a CSV or JSON file (x, y, z and optional id, color, scale), fitted into the lattice box"
+        >
+          <Upload size={14} />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv,.json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+      {error && <p className="text-[11px] max-[960px]:text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Searchable list of every action, option and parameter. Arrow keys pick, Enter runs; for a
+ * parameter, a number typed after its name (e.g. "speed 2.5") sets it exactly.
+ */
+const CommandPalette: React.FC<{
+  commands: PaletteCommand[];
+  onClose: () => void;
+  accentColor: string;
+  accentSoft: string;
+}> = ({ commands, onClose, accentColor, accentSoft }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const activeRef = useRef<HTMLLIElement>(null);
+  const matches = useMemo(() => searchCommands(commands, query), [commands, query]);
+  const formatValue = (v: number) => (Number.isInteger(v) ? String(v) : v.toFixed(2));
+
+  useEffect(() => setActive(0), [query]);
+  useEffect(() => activeRef.current?.scrollIntoView({ block: 'nearest' }), [active]);
+
+  const choose = ({ command, value }: CommandMatch) => {
+    // A parameter picked without a number asks for one
+    if (command.range && value === null) {
+      setQuery(`${command.label} `);
+      return;
+    }
+    command.run(value ?? undefined);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive(i => (matches.length === 0 ? 0 : (i + step + matches.length) % matches.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (matches[active]) choose(matches[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-start justify-center pt-[15vh] bg-black/40 backdrop-blur-sm pointer-events-auto" onPointerDown={onClose}>
+      <div className="w-[min(32rem,90vw)] rounded-xl border border-white/10 bg-neutral-900/95 shadow-2xl overflow-hidden" onPointerDown={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search actions and parameters, e.g. speed 2.5"
+          className="w-full border-b border-white/10 bg-transparent px-4 py-3 text-sm max-[960px]:text-base text-white placeholder:text-neutral-600 focus:outline-none"
+        />
+        <ul className="max-h-[50vh] overflow-y-auto py-1">
+          {matches.length === 0 && <li className="px-4 py-3 text-xs text-neutral-500">No matching commands</li>}
+          {matches.map((match, i) => (
+            <li key={match.command.id} ref={i === active ? activeRef : undefined}>
+              <button
+                onClick={() => choose(match)}
+                onPointerMove={() => setActive(i)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-left text-xs max-[960px]:text-base text-neutral-300"
+                style={i === active ? { background: accentSoft, color: '#fff' } : undefined}
+              >
+                <span className="flex-1 min-w-0 truncate">{match.command.label}</span>
+                <span className="text-[10px] uppercase font-bold tracking-wider text-neutral-600">{match.command.group}</span>
+                {match.command.value !== undefined && (
+                  <span className="font-mono text-[11px]" style={{ color: accentColor }}>
+                    {formatValue(match.command.value)}{match.value !== null ? ` → ${formatValue(match.value)}` : ''}
+                  </span>
+                )}
+                {match.command.shortcut && (
+                  <kbd className="font-mono text-[10px] px-1.5 py-0.5 rounded border border-white/10 bg-neutral-800 text-neutral-400">{match.command.shortcut}</kbd>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Live spectrum on a log frequency axis, with each band mapping shaded over it.
+ */
+const AudioSpectrum: React.FC<{ input: AudioInput; mappings: AudioMapping[]; accentColor: string }> = ({ input, mappings, accentColor }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const binHz = input.analyser.context.sampleRate / input.analyser.fftSize;
+    let frame = 0;
+
+    const draw = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth * dpr;
+      const height = canvas.clientHeight * dpr;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.clearRect(0, 0, width, height);
+
+      mappings.forEach(m => {
+        if (m.source !== 'band') return;
+        const x0 = hzToPosition(Math.min(m.lowHz, m.highHz)) * width;
+        const x1 = hzToPosition(Math.max(m.lowHz, m.highHz)) * width;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+        ctx.fillRect(x0, 0, Math.max(1, x1 - x0), height);
+      });
+
+      const bars = 64;
+      const barWidth = width / bars;
+      ctx.fillStyle = accentColor;
+      for (let b = 0; b < bars; b++) {
+        const lo = Math.floor(positionToHz(b / bars) / binHz);
+        const hi = Math.max(lo, Math.floor(positionToHz((b + 1) / bars) / binHz));
+        let peak = 0;
+        for (let i = lo; i <= hi && i < input.frequencyData.length; i++) peak = Math.max(peak, input.frequencyData[i]);
+        const h = (peak / 255) * height;
+        ctx.fillRect(b * barWidth + 1, height - h, Math.max(1, barWidth - 2), h);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [input, mappings, accentColor]);
+
+  return <canvas ref={canvasRef} className="w-full h-16 rounded-lg bg-neutral-900 border border-white/10" />;
+};
+
+/**
+ * Audio input (file or microphone) and the mappings from bands or level to scene parameters.
+ */
+const AudioPanel: React.FC<{
+  input: AudioInput | null;
+  settings: AudioSettings;
+  onSettingsChange: (settings: AudioSettings) => void;
+  levels: number[];
+  onOpenFile: (file: File) => void;
+  onOpenMic: () => void;
+  onStop: () => void;
+  loading: boolean;
+  error: string | null;
+  accentColor: string;
+  accentSoft: string;
+  accentBorder: string;
+}> = ({ input, settings, onSettingsChange, levels, onOpenFile, onOpenMic, onStop, loading, error, accentColor, accentSoft, accentBorder }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fieldClass = "w-full rounded-lg border border-white/10 bg-neutral-800 px-2 py-1.5 text-xs max-[960px]:text-base text-white focus:outline-none focus:border-white/30";
+  const buttonClass = "flex-1 flex items-center justify-center gap-1.5 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95 disabled:opacity-30";
+  const accents = { accentColor, accentSoft, accentBorder };
+
+  const updateMapping = (id: string, patch: Partial<AudioMapping>) => onSettingsChange({
+    ...settings,
+    mappings: settings.mappings.map(m => (m.id === id ? { ...m, ...patch } : m)),
+  });
+
+  return (
+    <div className="group space-y-4 mt-8 pt-6 border-t border-white/5">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Audio</label>
+        {input && <span className="max-w-[60%] truncate text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{input.label}</span>}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => fileInputRef.current?.click()} disabled={loading} className={buttonClass}>
+          <Music size={14} /> File
+        </button>
+        <button onClick={onOpenMic} disabled={loading} className={buttonClass}>
+          <Mic size={14} /> Mic
+        </button>
+        {input && (
+          <button onClick={onStop} className={buttonClass}>
+            <Square size={14} /> Stop
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onOpenFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-[11px] max-[960px]:text-sm text-red-400">{error}</p>}
+      {input && <AudioSpectrum input={input} mappings={settings.mappings} accentColor={accentColor} />}
+
+      <RangeControl label="Gain" value={settings.gain} min={0.1} max={4} step={0.05} format={(v) => `${v.toFixed(2)}x`}
+        onChange={(gain) => onSettingsChange({ ...settings, gain })} {...accents} />
+      <RangeControl label="Smoothing" value={settings.smoothing} min={0} max={0.95} step={0.01} format={(v) => v.toFixed(2)}
+        onChange={(smoothing) => onSettingsChange({ ...settings, smoothing })} {...accents} />
+
+      {settings.mappings.map((mapping, i) => (
+        <div key={mapping.id} className="space-y-3 p-3 rounded-lg border border-white/10 bg-neutral-900/60">
+          <div className="flex items-center gap-2">
+            <select value={mapping.source} onChange={(e) => updateMapping(mapping.id, { source: e.target.value as AudioSource })} className={fieldClass}>
+              <option value="band">Band</option>
+              <option value="level">Level</option>
+            </select>
+            <span className="text-neutral-500 text-xs">→</span>
+            <select value={mapping.target} onChange={(e) => updateMapping(mapping.id, { target: e.target.value as AudioTarget })} className={fieldClass}>
+              {AUDIO_TARGETS.map(t => <option key={t.target} value={t.target}>{t.label}</option>)}
+            </select>
+            <button
+              onClick={() => onSettingsChange({ ...settings, mappings: settings.mappings.filter(m => m.id !== mapping.id) })}
+              className="text-neutral-500 hover:text-red-400 transition"
+              title="Remove mapping"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <div className="h-1 rounded bg-neutral-800 overflow-hidden">
+            <div className="h-full" style={{ width: `${(levels[i] ?? 0) * 100}%`, background: accentColor }} />
+          </div>
+          {mapping.source === 'band' && (
+            <>
+              <div className="flex gap-2">
+                {AUDIO_BANDS.map(band => (
+                  <button
+                    key={band.label}
+                    onClick={() => updateMapping(mapping.id, { lowHz: band.lowHz, highHz: band.highHz })}
+                    className="flex-1 py-1 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded border border-white/10 text-neutral-400 hover:text-white hover:border-white/30 transition"
+                    style={mapping.lowHz === band.lowHz && mapping.highHz === band.highHz ? { color: accentColor, borderColor: accentBorder, background: accentSoft } : undefined}
+                  >
+                    {band.label}
+                  </button>
+                ))}
+              </div>
+              <RangeControl label="Low Hz" value={hzToPosition(mapping.lowHz)} min={0} max={1} step={0.005}
+                format={(v) => formatHz(positionToHz(v))}
+                onChange={(v) => updateMapping(mapping.id, { lowHz: Math.min(positionToHz(v), mapping.highHz) })} {...accents} />
+              <RangeControl label="High Hz" value={hzToPosition(mapping.highHz)} min={0} max={1} step={0.005}
+                format={(v) => formatHz(positionToHz(v))}
+                onChange={(v) => updateMapping(mapping.id, { highHz: Math.max(positionToHz(v), mapping.lowHz) })} {...accents} />
+            </>
+          )}
+          <RangeControl label="Amount" value={mapping.amount} min={0} max={1} step={0.01} format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(amount) => updateMapping(mapping.id, { amount })} {...accents} />
+        </div>
+      ))}
+      <button
+        onClick={() => onSettingsChange({ ...settings, mappings: [...settings.mappings, createAudioMapping('speed')] })}
+        className={`${buttonClass} w-full`}
+      >
+        <Plus size={14} /> Add Mapping
+      </button>
+    </div>
+  );
+};
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+/**
+ * Keyframe timeline: tracks per animated parameter, a scrubber and transport controls.
+ * New keys capture the parameter's current sidebar value at the playhead.
+ */
+const TimelinePanel: React.FC<{
+  timeline: Timeline;
+  onTimelineChange: (timeline: Timeline) => void;
+  playhead: number;
+  onScrub: (time: number) => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  baseSettings: SceneSettings;
+  onClose: () => void;
+  accentColor: string;
+  accentBorder: string;
+}> = ({ timeline, onTimelineChange, playhead, onScrub, isPlaying, onTogglePlay, baseSettings, onClose, accentColor, accentBorder }) => {
+  const [param, setParam] = useState<AnimatableParam>('speed');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const selected = useMemo(() => {
+    for (const track of timeline.tracks) {
+      const keyframe = track.keyframes.find(k => k.id === selectedKey);
+      if (keyframe) return { track, keyframe };
+    }
+    return null;
+  }, [timeline, selectedKey]);
+
+  const labelFor = (p: AnimatableParam) => ANIMATABLE_PARAMS.find(a => a.param === p)?.label ?? p;
+
+  const addKey = (p: AnimatableParam) => onTimelineChange(setKeyframe(timeline, p, playhead, baseSettings[p]));
+
+  const fieldClass = "rounded-md border border-white/10 bg-neutral-800 px-2 py-1 text-[11px] max-[960px]:text-sm text-white focus:outline-none focus:border-white/30";
+  const iconButton = "flex items-center justify-center w-8 h-8 rounded-lg border border-white/10 bg-neutral-800 text-neutral-300 transition hover:text-white hover:border-white/30 active:scale-95";
+
+  return (
+    <div className="absolute bottom-4 left-[21rem] right-20 max-[960px]:left-4 max-[960px]:right-4 z-20 pointer-events-auto bg-neutral-900/85 border border-white/10 rounded-xl p-4 shadow-2xl backdrop-blur space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onTogglePlay} className={iconButton} style={isPlaying ? { background: accentColor, borderColor: accentBorder, color: '#fff' } : undefined} title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button onClick={() => onScrub(0)} className={iconButton} title="Rewind">
+          <SkipBack size={14} />
+        </button>
+        <button
+          onClick={() => onTimelineChange({ ...timeline, loop: !timeline.loop })}
+          className={iconButton}
+          style={timeline.loop ? { color: accentColor, borderColor: accentBorder } : undefined}
+          title={timeline.loop ? 'Looping' : 'Play Once'}
+        >
+          <Repeat size={14} />
+        </button>
+        <span className="font-mono text-[11px] max-[960px]:text-sm text-neutral-400 w-28">
+          {formatTime(playhead)} / {formatTime(timeline.duration)}
+        </span>
+        <label className="flex items-center gap-1 text-[10px] uppercase font-bold tracking-wider text-neutral-500">
+          Length
+          <input
+            type="number" min={1} max={600} step={1} value={timeline.duration}
+            onChange={(e) => {
+              const duration = Math.max(1, parseFloat(e.target.value) || 1);
+              onTimelineChange({ ...timeline, duration });
+              if (playhead > duration) onScrub(duration);
+            }}
+            className={`${fieldClass} w-16`}
+          />
+        </label>
+        <div className="flex items-center gap-2 ml-auto">
+          <select value={param} onChange={(e) => setParam(e.target.value as AnimatableParam)} className={fieldClass}>
+            {ANIMATABLE_PARAMS.map(a => <option key={a.param} value={a.param}>{a.label}</option>)}
+          </select>
+          <button onClick={() => addKey(param)} className={`${iconButton} w-auto px-3 gap-1 text-[10px] uppercase font-bold tracking-wider`} title="Key current value at playhead">
+            <Plus size={12} /> Key
+          </button>
+          <button onClick={onClose} className={iconButton} title="Close Timeline">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="range" min={0} max={timeline.duration} step={0.01} value={playhead}
+        onChange={(e) => onScrub(parseFloat(e.target.value))}
+        className="w-full h-2 bg-neutral-800 rounded-lg appearance-none cursor-pointer touch-none"
+        style={{ accentColor, touchAction: 'none' }}
+      />
+
+      {timeline.tracks.length === 0 ? (
+        <p className="text-[11px] max-[960px]:text-sm text-neutral-500">
+          Pick a parameter, set its value in the sidebar and press Key to add a keyframe at the playhead.
+        </p>
+      ) : (
+        <div className="space-y-1.5 max-h-40 overflow-y-auto">
+          {timeline.tracks.map(track => (
+            <div key={track.param} className="flex items-center gap-2">
+              <span className="w-28 truncate text-[10px] uppercase font-bold tracking-wider text-neutral-400">{labelFor(track.param)}</span>
+              <div
+                className="relative flex-1 h-5 rounded bg-neutral-800/80 cursor-pointer"
+                onClick={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  onScrub(clamp01((e.clientX - rect.left) / rect.width) * timeline.duration);
+                }}
+              >
+                <div className="absolute top-0 bottom-0 w-px bg-white/40" style={{ left: `${(playhead / timeline.duration) * 100}%` }} />
+                {track.keyframes.map(k => (
+                  <button
+                    key={k.id}
+                    onClick={(e) => { e.stopPropagation(); setSelectedKey(k.id); onScrub(k.time); }}
+                    className="absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-white"
+                    style={{ left: `${(Math.min(k.time, timeline.duration) / timeline.duration) * 100}%`, background: k.id === selectedKey ? accentColor : '#171717' }}
+                    title={`${formatTime(k.time)} → ${k.value.toFixed(3)}`}
+                  />
+                ))}
+              </div>
+              <button onClick={() => addKey(track.param)} className="text-neutral-500 hover:text-white transition" title="Key at playhead">
+                <Plus size={14} />
+              </button>
+              <button onClick={() => onTimelineChange(removeTrack(timeline, track.param))} className="text-neutral-600 hover:text-white transition" title="Remove Track">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-white/5 text-[10px] uppercase font-bold tracking-wider text-neutral-500">
+          <span className="text-neutral-300">{labelFor(selected.track.param)}</span>
+          <label className="flex items-center gap-1">
+            Time
+            <input
+              type="number" min={0} max={timeline.duration} step={0.05} value={Number(selected.keyframe.time.toFixed(3))}
+              onChange={(e) => onTimelineChange(updateKeyframe(timeline, selected.keyframe.id, { time: Math.min(timeline.duration, Math.max(0, parseFloat(e.target.value) || 0)) }))}
+              className={`${fieldClass} w-20`}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Value
+            <input
+              type="number" step={0.01} value={Number(selected.keyframe.value.toFixed(3))}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) onTimelineChange(updateKeyframe(timeline, selected.keyframe.id, { value }));
+              }}
+              className={`${fieldClass} w-20`}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Easing
+            <select
+              value={selected.keyframe.easing}
+              onChange={(e) => onTimelineChange(updateKeyframe(timeline, selected.keyframe.id, { easing: e.target.value as Easing }))}
+              className={fieldClass}
+            >
+              {EASINGS.map(easing => <option key={easing} value={easing}>{easing}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => { onTimelineChange(removeKeyframe(timeline, selected.keyframe.id)); setSelectedKey(null); }}
+            className="ml-auto text-neutral-500 hover:text-white transition"
+            title="Delete Keyframe"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const App: React.FC = () => {
+  // Settings shared through the URL hash take precedence over the defaults
+  const [initial] = useState<SceneSettings>(() => readSceneFromLocation() ?? DEFAULT_SCENE_SETTINGS);
+  const [matrix, setMatrix] = useState<MatrixConfig>(initial.matrix);
+  const [baseSpheres, setBaseSpheres] = useState<SphereData[]>(() => generateLattice(initial.matrix, initial.seed));
+  const [opacity, setOpacity] = useState(initial.opacity);
+  const [curveStartY, setCurveStartY] = useState(initial.curveStartY);
+  const [curveEndY, setCurveEndY] = useState(initial.curveEndY);
+  const [curvePoints, setCurvePoints] = useState<CurvePoint[] | null>(initial.curvePoints);
+  const [isDynamic, setIsDynamic] = useState(true);
+  const [speed, setSpeed] = useState(initial.speed);
+  const [showFocalPoint, setShowFocalPoint] = useState(false);
+  const [pinnedCenters, setPinnedCenters] = useState<boolean[]>(() => Array(MAX_ENGINE_CENTERS).fill(false));
+  const [selectedCenter, setSelectedCenter] = useState<number | null>(null);
+
+  const setCenterPinned = (index: number, pinned: boolean) =>
+    setPinnedCenters(prev => prev.map((p, i) => (i === index ? pinned : p)));
+
+  const toggleCenterNegative = (index: number) =>
+    setNegativeCenters(prev => prev.map((n, i) => (i === index ? !n : n)));
+
+  const updateCenterStyle = (index: number, style: CenterStyle) =>
+    setCenterStyles(prev => prev.map((s, i) => (i === index ? style : s)));
+
+  const updateMotion = (index: number, motion: FocalMotion) =>
+    setMotions(prev => prev.map((m, i) => (i === index ? motion : m)));
+
+  const selectCenter = (index: number) => {
+    setShowFocalPoint(true);
+    setSelectedCenter(prev => (prev === index ? null : index));
+  };
+
+  // Scale Range Bounds
+  const [minScale, setMinScale] = useState(initial.minScale);
+  const [maxScale, setMaxScale] = useState(initial.maxScale);
+  const [hue, setHue] = useState(initial.hue); // degrees
+  const [hue2, setHue2] = useState(initial.hue2); // degrees - secondary color for distance blend
+  const [gradient, setGradient] = useState<GradientStop[] | null>(initial.gradient);
+  const [gradientDriver, setGradientDriver] = useState<GradientDriver>(initial.gradientDriver);
+  const [sphereSegments, setSphereSegments] = useState(initial.sphereSegments);
+  const [engineCenters, setEngineCenters] = useState(initial.engineCenters);
+  const [engineRandomness, setEngineRandomness] = useState(initial.engineRandomness);
+  const [seed, setSeed] = useState(initial.seed);
+  const [boundScale, setBoundScale] = useState(initial.boundScale);
+  const [blendMode, setBlendMode] = useState<BlendMode>(initial.blendMode);
+  const [combineMode, setCombineMode] = useState<CombineMode>(initial.combineMode);
+  const [blendRadius, setBlendRadius] = useState(initial.blendRadius);
+  const [negativeCenters, setNegativeCenters] = useState<boolean[]>(initial.negativeCenters);
+  const [distanceMetric, setDistanceMetric] = useState<DistanceMetric>(initial.distanceMetric);
+  const [metricAxis, setMetricAxis] = useState<Axis>(initial.metricAxis);
+  const [axisScaleX, setAxisScaleX] = useState(initial.axisScaleX);
+  const [axisScaleY, setAxisScaleY] = useState(initial.axisScaleY);
+  const [axisScaleZ, setAxisScaleZ] = useState(initial.axisScaleZ);
+  const [centerStyles, setCenterStyles] = useState<CenterStyle[]>(initial.centerStyles);
+  const [primitive, setPrimitive] = useState<Primitive>(initial.primitive);
+  const [orientation, setOrientation] = useState<Orientation>(initial.orientation);
+  const [stretch, setStretch] = useState(initial.stretch);
+  // A loaded GLB is session-only; presets and links that ask for `custom` show spheres until one is loaded
+  const [customMesh, setCustomMesh] = useState<{ name: string; geometry: THREE.BufferGeometry } | null>(null);
+  const [primitiveError, setPrimitiveError] = useState<string | null>(null);
+  // Device-specific render path, so deliberately not part of presets or links
+  const [gpuScaling, setGpuScaling] = useState(false);
+  const [showPerf, setShowPerf] = useState(false);
+  const [qualityTarget, setQualityTarget] = useState<number | null>(null);
+  const [perfSample, setPerfSample] = useState<PerfSample | null>(null);
+  const [governor, setGovernor] = useState<GovernorState>(INITIAL_GOVERNOR);
+  const [ambientIntensity, setAmbientIntensity] = useState(initial.ambientIntensity);
+  const [lineOpacity, setLineOpacity] = useState(initial.lineOpacity);
+  const [motions, setMotions] = useState<FocalMotion[]>(initial.motions);
+  const [physics, setPhysics] = useState<PhysicsSettings | null>(initial.physics);
+  const [showUI, setShowUI] = useState(true);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+
+  // AI Sculptor
+  const [sculptPrompt, setSculptPrompt] = useState('');
+  const [isSculpting, setIsSculpting] = useState(false);
+  const [sculptMessage, setSculptMessage] = useState<string | null>(null);
+
+  const handleSculpt = async () => {
+    const prompt = sculptPrompt.trim();
+    if (!prompt || isSculpting) return;
+    setIsSculpting(true);
+    try {
+      const { updates, message } = await transformMatrix(prompt, baseSpheres);
+      setBaseSpheres(prev => applySphereUpdates(prev, updates ?? []));
+      setSculptMessage(message);
+    } finally {
+      setIsSculpting(false);
+    }
+  };
+
+  const handleResetSculpt = () => {
+    setBaseSpheres(generateLattice(matrix, seed));
+    setSculptMessage(null);
+  };
+  
+  // Camera position - zoom out more on small screens
+  const [cameraDistance] = useState(() => {
+    if (typeof window !== 'undefined') {
+      if (window.innerWidth < 600) {
+        return 42; // Zoomed out more for very small screens
+      }
+      if (window.innerWidth < 960) {
+        return 32; // Zoomed out for mobile
+      }
+    }
+    return 20; // Default for desktop
+  });
+  
+  // Track if initial mount is complete to prevent sidebar animation on load
+  const [hasMounted, setHasMounted] = useState(false);
+  useEffect(() => {
+    setHasMounted(true);
+  }, []);
+
+  // Bezier Controls
+  const [p1x, setP1x] = useState(initial.p1x);
+  const [p1y, setP1y] = useState(initial.p1y);
+  const [p2x, setP2x] = useState(initial.p2x);
+  const [p2y, setP2y] = useState(initial.p2y);
+
+  const falloffCurve = curvePoints ?? classicCurve(p1x, p1y, p2x, p2y, curveStartY, curveEndY);
+
+  // Classic-shaped curves go back into the Bezier fields, where the timeline animates them
+  const setFalloffCurve = (points: CurvePoint[]) => {
+    const classic = toClassic(points);
+    if (!classic) {
+      setCurvePoints(points);
+      return;
+    }
+    setP1x(classic.p1x);
+    setP1y(classic.p1y);
+    setP2x(classic.p2x);
+    setP2y(classic.p2y);
+    setCurveStartY(classic.startY);
+    setCurveEndY(classic.endY);
+    setCurvePoints(null);
+  };
+
+  const sceneSettings: SceneSettings = useMemo(() => ({
+    p1x, p1y, p2x, p2y, curveStartY, curveEndY, curvePoints, minScale, maxScale, hue, hue2, gradient, gradientDriver, speed,
+    engineCenters, engineRandomness, seed, boundScale, combineMode, blendRadius, negativeCenters, centerStyles,
+    distanceMetric, metricAxis, axisScaleX, axisScaleY, axisScaleZ, blendMode,
+    primitive, orientation, stretch, opacity, lineOpacity,
+    sphereSegments, ambientIntensity, matrix, motions, physics,
+  }), [
+    p1x, p1y, p2x, p2y, curveStartY, curveEndY, curvePoints, minScale, maxScale, hue, hue2, gradient, gradientDriver, speed,
+    engineCenters, engineRandomness, seed, boundScale, combineMode, blendRadius, negativeCenters, centerStyles,
+    distanceMetric, metricAxis, axisScaleX, axisScaleY, axisScaleZ, blendMode,
+    primitive, orientation, stretch, opacity, lineOpacity,
+    sphereSegments, ambientIntensity, matrix, motions, physics,
+  ]);
+
+  const applySceneSettings = (settings: SceneSettings) => {
+    setP1x(settings.p1x);
+    setP1y(settings.p1y);
+    setP2x(settings.p2x);
+    setP2y(settings.p2y);
+    setCurveStartY(settings.curveStartY);
+    setCurveEndY(settings.curveEndY);
+    setCurvePoints(settings.curvePoints);
+    setMinScale(settings.minScale);
+    setMaxScale(settings.maxScale);
+    setHue(settings.hue);
+    setHue2(settings.hue2);
+    setGradient(settings.gradient);
+    setGradientDriver(settings.gradientDriver);
+    setSpeed(settings.speed);
+    setEngineCenters(settings.engineCenters);
+    setEngineRandomness(settings.engineRandomness);
+    setSeed(settings.seed);
+    setBoundScale(settings.boundScale);
+    setCombineMode(settings.combineMode);
+    setBlendRadius(settings.blendRadius);
+    setNegativeCenters(settings.negativeCenters);
+    setCenterStyles(settings.centerStyles);
+    setDistanceMetric(settings.distanceMetric);
+    setMetricAxis(settings.metricAxis);
+    setAxisScaleX(settings.axisScaleX);
+    setAxisScaleY(settings.axisScaleY);
+    setAxisScaleZ(settings.axisScaleZ);
+    setBlendMode(settings.blendMode);
+    setPrimitive(settings.primitive);
+    setOrientation(settings.orientation);
+    setStretch(settings.stretch);
+    setOpacity(settings.opacity);
+    setLineOpacity(settings.lineOpacity);
+    setSphereSegments(settings.sphereSegments);
+    setAmbientIntensity(settings.ambientIntensity);
+    setMotions(settings.motions);
+    setPhysics(settings.physics);
+    // Keep the existing lattice (and any AI edits) when the dimensions are unchanged
+    setMatrix(prev => (
+      prev.rows === settings.matrix.rows && prev.cols === settings.matrix.cols &&
+      prev.layers === settings.matrix.layers && prev.spacing === settings.matrix.spacing &&
+      prev.layout === settings.matrix.layout
+    ) ? prev : settings.matrix);
+  };
+
+  // Mirror the scene into the URL hash; debounced and replaced in place so slider drags don't flood history
+  useEffect(() => {
+    const timer = window.setTimeout(() => writeSceneToLocation(sceneSettings), 300);
+    return () => window.clearTimeout(timer);
+  }, [sceneSettings]);
+
+  // Pasting a shared link into an open tab only changes the hash, so apply it live
+  useEffect(() => {
+    const handleHashChange = () => applySceneSettings(decodeSceneHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Keyframe timeline
+  const [timeline, setTimeline] = useState<Timeline>(DEFAULT_TIMELINE);
+  const [playhead, setPlayhead] = useState(0);
+  const [isTimelinePlaying, setIsTimelinePlaying] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const playheadRef = useRef(0);
+
+  const scrubTimeline = (time: number) => {
+    playheadRef.current = time;
+    setPlayhead(time);
+  };
+
+  useEffect(() => {
+    if (!isTimelinePlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const result = advancePlayhead(timeline, playheadRef.current, (now - last) / 1000);
+      last = now;
+      scrubTimeline(result.time);
+      if (!result.playing) {
+        setIsTimelinePlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isTimelinePlaying, timeline]);
+
+  const toggleTimelinePlayback = () => {
+    if (!isTimelinePlaying && playheadRef.current >= timeline.duration) scrubTimeline(0);
+    setIsTimelinePlaying(!isTimelinePlaying);
+  };
+
+  // Offline export
+  const exporterRef = useRef<FrameExporterHandle | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exportProgress, setExportProgress] = useState<{ label: string; frame: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [simulationEpoch, setSimulationEpoch] = useState(0);
+  const uiVisible = showUI && !exportProgress;
+
+  // Moves keyed parameters to an export frame's time and lets them apply before it is stepped
+  const animatedExport = timeline.tracks.length > 0;
+  const prepareExportFrame = async (time: number) => {
+    if (!animatedExport) return;
+    scrubTimeline(timeline.loop ? time % timeline.duration : Math.min(time, timeline.duration));
+    await waitForCommit();
+  };
+
+  const handleExport = async () => {
+    const exporter = exporterRef.current;
+    if (!exporter || exportAbortRef.current) return;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    const options = exportOptions;
+    const label = `Rendering ${options.format === 'png' ? 'PNG frames' : 'WebM'}`;
+
+    setExportError(null);
+    setIsTimelinePlaying(false);
+    setExportProgress({ label, frame: 0, total: Math.max(1, Math.round(options.duration * options.fps)) });
+    setSimulationEpoch(epoch => epoch + 1);
+    await waitForCommit();
+
+    try {
+      const blob = await exporter.render(options, {
+        signal: controller.signal,
+        onProgress: (frame, total) => setExportProgress({ label, frame, total }),
+        prepareFrame: prepareExportFrame,
+      });
+      if (blob) downloadBlob(blob, exportFileName(options));
+    } catch (error) {
+      console.error("Frame export error:", error);
+      setExportError(error instanceof Error ? error.message : 'Export failed.');
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  // Geometry export of the current frame
+  const snapshotRef = useRef<InstanceSnapshotHandle | null>(null);
+  const [meshExportOptions, setMeshExportOptions] = useState<MeshExportOptions>(DEFAULT_MESH_EXPORT_OPTIONS);
+  const [meshExporting, setMeshExporting] = useState(false);
+  const [meshExportError, setMeshExportError] = useState<string | null>(null);
 
-  // Scale Range Bounds
-  const [minScale, setMinScale] = useState(0.03);
-  const [maxScale, setMaxScale] = useState(2.0);
-  const [hue, setHue] = useState(220); // degrees
-  const [hue2, setHue2] = useState(340); // degrees - secondary color for distance blend
-  const [sphereSegments, setSphereSegments] = useState(16);
-  const [engineCenters, setEngineCenters] = useState(1);
-  const [engineRandomness, setEngineRandomness] = useState(0);
-  const [boundScale, setBoundScale] = useState(2);
-  const [blendMode, setBlendMode] = useState<BlendMode>('normal');
-  const [ambientIntensity, setAmbientIntensity] = useState(1);
-  const [lineOpacity, setLineOpacity] = useState(0.00);
-  const [showUI, setShowUI] = useState(true);
-  const [drawerOpen, setDrawerOpen] = useState(false);
-  
-  // Camera position - zoom out more on small screens
-  const [cameraDistance] = useState(() => {
-    if (typeof window !== 'undefined') {
-      if (window.innerWidth < 600) {
-        return 42; // Zoomed out more for very small screens
-      }
-      if (window.innerWidth < 960) {
-        return 32; // Zoomed out for mobile
-      }
+  const handleMeshExport = async () => {
+    const snapshot = snapshotRef.current?.snapshot();
+    if (!snapshot || meshExporting) return;
+    // The panel disables the union for shapes it cannot be built from
+    const options = supportsUnion(primitive) ? meshExportOptions : { ...meshExportOptions, union: false };
+    setMeshExportError(null);
+    setMeshExporting(true);
+    // Let the busy state paint before meshing blocks the thread
+    await waitForCommit();
+    try {
+      const lines = options.lines && liveSettings.lineOpacity > 0
+        ? {
+          positions: neighborSegments(baseSpheres.map(sphere => sphere.position), matrix.spacing * LINK_FACTOR),
+          color: config.tintColor,
+          opacity: liveSettings.lineOpacity,
+        }
+        : null;
+      downloadBlob(await exportMesh(snapshot, options, lines, primitive), meshExportFileName(options));
+    } catch (error) {
+      console.error("Geometry export error:", error);
+      setMeshExportError(error instanceof Error ? error.message : 'Export failed.');
+    } finally {
+      setMeshExporting(false);
     }
-    return 20; // Default for desktop
-  });
-  
-  // Track if initial mount is complete to prevent sidebar animation on load
-  const [hasMounted, setHasMounted] = useState(false);
+  };
+
+  // Point-cloud data export and import
+  const samplerRef = useRef<FieldSamplerHandle | null>(null);
+  const [pointCloudOptions, setPointCloudOptions] = useState<PointCloudOptions>(DEFAULT_POINT_CLOUD_OPTIONS);
+  const [pointCloudError, setPointCloudError] = useState<string | null>(null);
+
+  const handlePointCloudExport = async () => {
+    const sampler = samplerRef.current;
+    const exporter = exporterRef.current;
+    if (!sampler || !exporter || exportAbortRef.current) return;
+    const options = pointCloudOptions;
+    const spheres = baseSpheres;
+    const spacing = matrix.spacing;
+    setPointCloudError(null);
+
+    if (!options.range) {
+      downloadBlob(encodePointCloud(spheres, [{ frame: 0, time: 0, ...sampler.sample() }], spacing, options.format), pointCloudFileName(options));
+      return;
+    }
+
+    // Ranges restart the motion and step it like an offline render, so they match the rendered frames
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    const label = `Recording ${options.format.toUpperCase()}`;
+    const frames: PointFrame[] = [];
+    setIsTimelinePlaying(false);
+    setExportProgress({ label, frame: 0, total: Math.max(1, Math.round(options.duration * options.fps)) });
+    setSimulationEpoch(epoch => epoch + 1);
+    await waitForCommit();
+
+    try {
+      const completed = await exporter.record(options, {
+        signal: controller.signal,
+        onProgress: (frame, total) => setExportProgress({ label, frame, total }),
+        prepareFrame: prepareExportFrame,
+        // Read through the ref: keyed parameters re-register the sampler with the new config
+        onFrame: (frame, time) => {
+          const sample = samplerRef.current?.sample();
+          if (sample) frames.push({ frame, time, ...sample });
+        },
+      });
+      if (completed) downloadBlob(encodePointCloud(spheres, frames, spacing, options.format), pointCloudFileName(options));
+    } catch (error) {
+      console.error("Point cloud export error:", error);
+      setPointCloudError(error instanceof Error ? error.message : 'Export failed.');
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handlePointCloudImport = async (file: File) => {
+    setPointCloudError(null);
+    try {
+      setBaseSpheres(fitToLattice(await readPointCloudFile(file), matrix));
+    } catch (error) {
+      setPointCloudError(error instanceof Error ? error.message : 'Could not import points.');
+    }
+  };
+
+  // Audio-reactive input
+  const [audioInput, setAudioInput] = useState<AudioInput | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [audioLevels, setAudioLevels] = useState<number[]>([]);
+  const [audioLoading, setAudioLoading] = useState(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
+
+  const openAudio = async (open: () => Promise<AudioInput>) => {
+    setAudioLoading(true);
+    setAudioError(null);
+    try {
+      setAudioInput(await open());
+    } catch (error) {
+      setAudioError(error instanceof Error ? error.message : 'Could not start audio.');
+    } finally {
+      setAudioLoading(false);
+    }
+  };
+
+  const stopAudio = () => {
+    setAudioInput(null);
+    setAudioLevels([]);
+  };
+
   useEffect(() => {
-    setHasMounted(true);
-  }, []);
+    if (!audioInput) return;
+    let frame = 0;
+    let sampledAt = -Infinity;
+    const tick = (now: number) => {
+      // Every new set of levels re-renders the sculpt, so sample at a capped rate and skip repeats
+      if (now - sampledAt >= AUDIO_SAMPLE_MS) {
+        sampledAt = now;
+        const levels = sampleAudio(audioInput, audioSettings);
+        setAudioLevels(prev =>
+          prev.length === levels.length && prev.every((level, i) => Math.abs(level - levels[i]) < 1e-3) ? prev : levels
+        );
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [audioInput, audioSettings]);
 
-  // Bezier Controls
-  const [p1x, setP1x] = useState(0.33);
-  const [p1y, setP1y] = useState(0.8);
-  const [p2x, setP2x] = useState(0.66);
-  const [p2y, setP2y] = useState(0.2);
+  // Releases the previous input whenever it is replaced or stopped
+  useEffect(() => () => audioInput?.stop(), [audioInput]);
+
+  const handlePerfSample = (sample: PerfSample) => {
+    if (showPerf) setPerfSample(sample);
+    // Offline export renders at its own pace, which says nothing about live performance
+    if (qualityTarget && !exportProgress) setGovernor(prev => governQuality(prev, sample, qualityTarget));
+  };
+
+  useEffect(() => {
+    if (!qualityTarget) setGovernor(INITIAL_GOVERNOR);
+  }, [qualityTarget]);
+
+  const qualityTier = qualityTarget ? QUALITY_TIERS[governor.tier] : null;
+  const renderSegments = qualityTier ? Math.min(sphereSegments, qualityTier.maxSegments) : sphereSegments;
+
+  // Sidebar values overlaid with any keyframed parameters at the playhead
+  const timelineSettings: SceneSettings = useMemo(
+    () => applyTimeline(sceneSettings, timeline, playhead),
+    [sceneSettings, timeline, playhead]
+  );
 
-  const tintColor = useMemo(() => {
-    const { r, g, b } = hsvToRgb(hue / 360, 1, 1);
-    return new THREE.Color(r, g, b);
-  }, [hue]);
+  // Audio rides on top of the timeline while an input is live; offline exports stay deterministic without it
+  const audioModulation = useMemo(
+    () => (audioInput && !exportProgress
+      ? applyAudioModulation(timelineSettings, audioSettings.mappings, audioLevels)
+      : null),
+    [audioInput, exportProgress, timelineSettings, audioSettings.mappings, audioLevels]
+  );
+
+  // This is what the scene renders
+  const liveSettings = audioModulation?.settings ?? timelineSettings;
 
-  const tintColor2 = useMemo(() => {
-    const { r, g, b } = hsvToRgb(hue2 / 360, 1, 1);
-    return new THREE.Color(r, g, b);
-  }, [hue2]);
+  const tintColor = useMemo(() => hueColor(liveSettings.hue), [liveSettings.hue]);
+  const tintColor2 = useMemo(() => hueColor(liveSettings.hue2), [liveSettings.hue2]);
+
+  // Centers with their own hue pair get a two-hue gradient; the rest share the global one
+  const centerGradient = useMemo(() => {
+    const packed = new Float32Array(MAX_ENGINE_CENTERS * GRADIENT_SIZE * 4);
+    const globalStops = liveSettings.gradient ?? twoHueStops(liveSettings.hue, liveSettings.hue2);
+    centerStyles.forEach(({ hues }, c) => {
+      sampleGradient(hues ? twoHueStops(hues[0], hues[1]) : globalStops, GRADIENT_SIZE, packed, c * GRADIENT_SIZE * 4);
+    });
+    return packed;
+  }, [centerStyles, liveSettings.gradient, liveSettings.hue, liveSettings.hue2]);
 
   const accentColor = useMemo(() => `hsl(${hue}deg, 80%, 60%)`, [hue]);
   const accentSoft = useMemo(() => `hsla(${hue}deg, 80%, 60%, 0.1)`, [hue]);
@@ -815,36 +3622,289 @@ const App: React.FC = () => {
 
   const focalPointsRef = useRef<THREE.Vector3[]>([new THREE.Vector3(0, 0, 0)]);
 
+  const matrixBounds = useMemo(() => getMatrixBounds(matrix), [matrix]);
+  // The contact-shadow plane, which physics bodies also bounce on
+  const floorY = -(matrixBounds.y + matrix.spacing * 2);
+
+  // Rebuild the lattice whenever its dimensions or layout change (and with the seed, for the Poisson fill).
+  // Undo restores spheres together with their dimensions, so it marks them as already built.
+  const latticeKey = latticeKeyOf(matrix, seed);
+  const builtLatticeRef = useRef(latticeKey);
+  useEffect(() => {
+    if (builtLatticeRef.current === latticeKey) return;
+    builtLatticeRef.current = latticeKey;
+    setBaseSpheres(generateLattice(matrix, seed));
+  }, [latticeKey]);
+
+  // Edit history: changes settle into one step once the state is quiet and no pointer is down,
+  // so a whole slider or curve drag undoes at once
+  const editState = useMemo<EditState>(() => ({ settings: sceneSettings, baseSpheres }), [sceneSettings, baseSpheres]);
+  const [history, setHistory] = useState<EditHistory>(() => createHistory(editState));
+  const [showHistory, setShowHistory] = useState(false);
+  const editStateRef = useRef(editState);
+  editStateRef.current = editState;
+  const gestureRef = useRef(false);
+
+  const settleEdit = () => setHistory(prev => pushHistory(prev, editStateRef.current));
+
+  useEffect(() => {
+    if (gestureRef.current) return;
+    const timer = window.setTimeout(settleEdit, HISTORY_SETTLE_MS);
+    return () => window.clearTimeout(timer);
+  }, [editState]);
+
+  useEffect(() => {
+    const begin = () => {
+      gestureRef.current = true;
+    };
+    const end = () => {
+      if (!gestureRef.current) return;
+      gestureRef.current = false;
+      settleEdit();
+    };
+    window.addEventListener('pointerdown', begin, true);
+    window.addEventListener('pointerup', end, true);
+    window.addEventListener('pointercancel', end, true);
+    return () => {
+      window.removeEventListener('pointerdown', begin, true);
+      window.removeEventListener('pointerup', end, true);
+      window.removeEventListener('pointercancel', end, true);
+    };
+  }, []);
+
+  const goToHistory = (target: (history: EditHistory) => number) => {
+    // Anything not settled yet becomes its own step first, so it can be redone
+    const settled = pushHistory(history, editStateRef.current);
+    const next = jumpHistory(settled, target(settled));
+    setHistory(next);
+    if (next.index === settled.index) return;
+    const { settings, baseSpheres: spheres } = next.entries[next.index].state;
+    builtLatticeRef.current = latticeKeyOf(settings.matrix, settings.seed);
+    applySceneSettings(settings);
+    setBaseSpheres(spheres);
+  };
+  const undo = () => goToHistory(h => h.index - 1);
+  const redo = () => goToHistory(h => h.index + 1);
+
+  const updateMatrix = (patch: Partial<MatrixConfig>) => setMatrix(prev => ({ ...prev, ...patch }));
+
+  // Records a center's current position as a spline waypoint in bounds-normalized coordinates
+  const addWaypointFromCenter = (index: number) => {
+    const focal = focalPointsRef.current[index];
+    if (!focal) return;
+    const bound = matrixBounds.clone().multiplyScalar(boundScale);
+    const point = [focal.x / bound.x, focal.y / bound.y, focal.z / bound.z]
+      .map(v => Math.round(Math.min(1, Math.max(-1, v)) * 1000) / 1000) as FocalMotion['path'][number];
+    setMotions(prev => prev.map((m, i) => (
+      i === index ? { ...m, path: [...m.path, point].slice(0, MAX_PATH_POINTS) } : m
+    )));
+  };
+
   useEffect(() => {
-    // Adjust number of centers and seed new ones randomly within bounds
+    // Adjust number of centers and seed new ones within bounds
     const target = engineCenters;
     const current = focalPointsRef.current.length;
-    const bound = (GRID_SIZE * INITIAL_SPACING) / boundScale;
+    const bound = matrixBounds.clone().multiplyScalar(boundScale);
     if (target > current) {
       for (let i = current; i < target; i++) {
-        focalPointsRef.current.push(
-          new THREE.Vector3(
-            (Math.random() - 0.5) * bound,
-            (Math.random() - 0.5) * bound,
-            (Math.random() - 0.5) * bound
-          )
-        );
+        focalPointsRef.current.push(seedFocalPoint(seed, i, bound));
       }
     } else if (target < current) {
       focalPointsRef.current = focalPointsRef.current.slice(0, target);
     }
-  }, [engineCenters, boundScale]);
+    // Removed centers lose their pin and selection
+    setPinnedCenters(prev => prev.map((pinned, i) => pinned && i < target));
+    setSelectedCenter(prev => (prev !== null && prev >= target ? null : prev));
+  }, [engineCenters, boundScale, matrixBounds, seed]);
 
-  const maxDist = useMemo(() => {
-    return Math.sqrt(3 * Math.pow((GRID_SIZE * INITIAL_SPACING) / 2, 2)) * 1.1;
-  }, []);
+  const axisScale = useMemo<[number, number, number]>(
+    () => [liveSettings.axisScaleX, liveSettings.axisScaleY, liveSettings.axisScaleZ],
+    [liveSettings.axisScaleX, liveSettings.axisScaleY, liveSettings.axisScaleZ]
+  );
+  const maxDist = useMemo(
+    () => metricMaxDist(distanceMetric, metricAxis, matrixBounds.toArray(), axisScale),
+    [distanceMetric, metricAxis, matrixBounds, axisScale]
+  );
 
   const lut = useMemo(
-    () => generateScaleLUT(p1x, p1y, p2x, p2y, curveStartY, curveEndY, minScale, maxScale),
-    [p1x, p1y, p2x, p2y, curveStartY, curveEndY, minScale, maxScale]
+    () => generateScaleLUT(
+      liveSettings.curvePoints ?? classicCurve(
+        liveSettings.p1x, liveSettings.p1y, liveSettings.p2x, liveSettings.p2y,
+        liveSettings.curveStartY, liveSettings.curveEndY
+      ),
+      LUT_SIZE, liveSettings.minScale, liveSettings.maxScale
+    ),
+    [
+      liveSettings.p1x, liveSettings.p1y, liveSettings.p2x, liveSettings.p2y, liveSettings.curveStartY,
+      liveSettings.curveEndY, liveSettings.curvePoints, liveSettings.minScale, liveSettings.maxScale,
+    ]
   );
 
-  const config: SceneConfig = { maxDist, opacity, lut, minScale, maxScale, tintColor, tintColor2 };
+  // Centers without their own curve reuse the global LUT; strength scales either one
+  const centerLut = useMemo(() => {
+    const packed = new Float32Array(MAX_ENGINE_CENTERS * LUT_SIZE);
+    centerStyles.forEach(({ curve, strength }, c) => {
+      const source = curve
+        ? generateScaleLUT(curve, LUT_SIZE, liveSettings.minScale, liveSettings.maxScale)
+        : lut;
+      for (let i = 0; i < LUT_SIZE; i++) packed[c * LUT_SIZE + i] = source[i] * strength;
+    });
+    return packed;
+  }, [centerStyles, lut, liveSettings.minScale, liveSettings.maxScale]);
+
+  // Kept stable across unrelated renders: the GPU path re-uploads its LUT and gradient textures when it changes
+  const config = useMemo<SceneConfig>(() => ({
+    maxDist,
+    metric: distanceMetric,
+    metricAxis,
+    axisScale,
+    combineMode,
+    blendRadius: liveSettings.blendRadius,
+    negativeCenters,
+    radii: centerStyles.map(style => style.radius),
+    opacity: liveSettings.opacity,
+    lut: centerLut,
+    minScale: liveSettings.minScale,
+    maxScale: liveSettings.maxScale,
+    tintColor,
+    tintColor2,
+    gradient: centerGradient,
+    gradientDriver,
+    orientation,
+    stretch: liveSettings.stretch,
+  }), [
+    maxDist, distanceMetric, metricAxis, axisScale, combineMode, liveSettings.blendRadius, negativeCenters, centerStyles,
+    liveSettings.opacity, centerLut, liveSettings.minScale, liveSettings.maxScale, tintColor, tintColor2, centerGradient,
+    gradientDriver, orientation, liveSettings.stretch,
+  ]);
+
+  const handleGlbUpload = async (file: File) => {
+    setPrimitiveError(null);
+    try {
+      setCustomMesh({ name: file.name, geometry: await loadGlbGeometry(file) });
+      setPrimitive('custom');
+    } catch (error) {
+      console.error("GLB load error:", error);
+      setPrimitiveError(error instanceof Error ? error.message : 'Could not load the GLB file.');
+    }
+  };
+
+  useEffect(() => () => customMesh?.geometry.dispose(), [customMesh]);
+
+  // Keyboard shortcuts and command palette
+  const [showPalette, setShowPalette] = useState(false);
+  const setNumericSetting = (key: NumericSetting, value: number) => applySceneSettings(withSetting(sceneSettings, key, value));
+  const nudgeSpeed = (delta: number) => setSpeed(clampSetting('speed', Math.round((speed + delta) * 100) / 100));
+  const nudgeHue = (delta: number) => setHue((((hue + delta) % 360) + 360) % 360);
+  const toggleBlendMode = () => setBlendMode(blendMode === 'normal' ? 'additive' : 'normal');
+
+  const buildCommands = (): PaletteCommand[] => {
+    const option = (group: string, id: string, label: string, run: () => void): PaletteCommand => ({ id: `${group}-${id}`, label: `${group}: ${label}`, group: 'Option', run });
+    const matrixParam = (key: 'cols' | 'rows' | 'layers' | 'spacing', label: string, min: number, max: number): PaletteCommand => ({
+      id: `matrix-${key}`, label, group: 'Parameter', value: matrix[key], range: { min, max },
+      run: (value) => {
+        if (value === undefined) return;
+        updateMatrix({ [key]: Math.min(max, Math.max(min, key === 'spacing' ? value : Math.round(value))) });
+      },
+    });
+    const paramLabels: { param: NumericSetting; label: string }[] = [
+      ...ANIMATABLE_PARAMS,
+      { param: 'engineCenters', label: 'Engine Centers' },
+      { param: 'seed', label: 'Seed' },
+      { param: 'sphereSegments', label: 'Sphere Segments' },
+    ];
+
+    return [
+      { id: 'pause', label: isDynamic ? 'Pause Motion' : 'Resume Motion', group: 'Action', shortcut: SHORTCUTS.pause, run: () => setIsDynamic(!isDynamic) },
+      ...Array.from({ length: MAX_ENGINE_CENTERS }, (_, i): PaletteCommand => ({
+        id: `centers-${i + 1}`, label: `${i + 1} Engine ${i === 0 ? 'Center' : 'Centers'}`, group: 'Action', shortcut: String(i + 1), run: () => setEngineCenters(i + 1),
+      })),
+      { id: 'blend', label: blendMode === 'normal' ? 'Additive Blending' : 'Normal Blending', group: 'Action', shortcut: SHORTCUTS.blend, run: toggleBlendMode },
+      { id: 'markers', label: showFocalPoint ? 'Hide Focal Markers' : 'Show Focal Markers', group: 'Action', shortcut: SHORTCUTS.markers, run: () => setShowFocalPoint(!showFocalPoint) },
+      { id: 'ui', label: 'Hide UI', group: 'Action', shortcut: SHORTCUTS.hideUI, run: () => setShowUI(false) },
+      { id: 'speed-up', label: 'Speed Up', group: 'Action', shortcut: SHORTCUTS.speedUp, run: () => nudgeSpeed(SPEED_NUDGE) },
+      { id: 'speed-down', label: 'Slow Down', group: 'Action', shortcut: SHORTCUTS.speedDown, run: () => nudgeSpeed(-SPEED_NUDGE) },
+      { id: 'hue-up', label: 'Shift Hue Up', group: 'Action', shortcut: SHORTCUTS.hueUp, run: () => nudgeHue(HUE_NUDGE) },
+      { id: 'hue-down', label: 'Shift Hue Down', group: 'Action', shortcut: SHORTCUTS.hueDown, run: () => nudgeHue(-HUE_NUDGE) },
+      { id: 'undo', label: 'Undo', group: 'Action', shortcut: SHORTCUTS.undo, run: undo },
+      { id: 'redo', label: 'Redo', group: 'Action', shortcut: SHORTCUTS.redo, run: redo },
+      { id: 'reroll', label: 'Reroll Seed', group: 'Action', run: () => setSeed(rerollSeed()) },
+      { id: 'timeline', label: showTimeline ? 'Hide Timeline' : 'Show Timeline', group: 'Action', run: () => setShowTimeline(!showTimeline) },
+      { id: 'history', label: showHistory ? 'Hide History List' : 'Show History List', group: 'Action', run: () => setShowHistory(!showHistory) },
+      { id: 'perf', label: showPerf ? 'Hide Performance HUD' : 'Show Performance HUD', group: 'Action', run: () => setShowPerf(!showPerf) },
+      // GPU scaling is unavailable while physics runs on the CPU
+      ...(physics ? [] : [{ id: 'gpu', label: gpuScaling ? 'CPU Scaling' : 'GPU Scaling', group: 'Action', run: () => setGpuScaling(!gpuScaling) }]),
+      { id: 'physics', label: physics ? 'Physics Off' : 'Physics On', group: 'Action', run: () => setPhysics(physics ? null : createPhysicsSettings()) },
+      { id: 'reset-spheres', label: 'Reset Spheres', group: 'Action', run: handleResetSculpt },
+      ...CURVE_PRESETS.map(({ label, points }) => option('Curve', label, label, () => setFalloffCurve(points))),
+      ...GRADIENT_PALETTES.map(({ label, stops }) => option('Palette', label, label, () => setGradient(stops))),
+      ...GRADIENT_DRIVERS.map(({ driver, label }) => option('Gradient By', driver, label, () => setGradientDriver(driver))),
+      ...COMBINE_MODES.map(({ mode, label }) => option('Combine', mode, label, () => setCombineMode(mode))),
+      ...DISTANCE_METRICS.map(({ metric, label }) => option('Metric', metric, label, () => setDistanceMetric(metric))),
+      ...AXES.map(axis => option('Metric Axis', axis, axis.toUpperCase(), () => setMetricAxis(axis))),
+      ...LATTICE_LAYOUTS.map(({ layout, label }) => option('Layout', layout, label, () => updateMatrix({ layout }))),
+      ...PRIMITIVES.filter(p => p.primitive !== 'custom' || customMesh).map(({ primitive: p, label }) => option('Primitive', p, label, () => setPrimitive(p))),
+      ...ORIENTATIONS.map(({ orientation: o, label }) => option('Orientation', o, label, () => setOrientation(o))),
+      ...paramLabels.map(({ param, label }): PaletteCommand => ({
+        id: `param-${param}`, label, group: 'Parameter', value: sceneSettings[param], range: NUMERIC_RANGES[param],
+        run: (value) => {
+          if (value !== undefined) setNumericSetting(param, value);
+        },
+      })),
+      matrixParam('cols', 'Columns', 1, MAX_MATRIX_DIM),
+      matrixParam('rows', 'Rows', 1, MAX_MATRIX_DIM),
+      matrixParam('layers', 'Layers', 1, MAX_MATRIX_DIM),
+      matrixParam('spacing', 'Spacing', 0.5, 3),
+    ];
+  };
+
+  // Read through a ref so the window listener always sees the latest state
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleShortcutRef.current = (e) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.code === 'KeyK') {
+      e.preventDefault();
+      setShowPalette(open => !open);
+      return;
+    }
+    // Text fields and selects keep their own keys, including their own undo
+    const target = e.target as HTMLElement | null;
+    if (target?.closest('textarea, input:not([type="range"]), select, [contenteditable]:not([contenteditable="false"])')) return;
+    if (mod && e.code === 'KeyZ') {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+      return;
+    }
+    if (mod || e.altKey || showPalette || exportProgress) return;
+    // A focused button presses on Space and Enter, so single-key shortcuts leave it alone
+    if (target?.closest('button, [role="button"]')) return;
+
+    const nudge = e.shiftKey ? SHIFT_NUDGE : 1;
+    const digit = /^Digit([1-9])$/.exec(e.code);
+    if (digit && Number(digit[1]) <= MAX_ENGINE_CENTERS) {
+      setEngineCenters(Number(digit[1]));
+    } else {
+      switch (e.code) {
+        case 'Space': setIsDynamic(!isDynamic); break;
+        case 'KeyB': toggleBlendMode(); break;
+        case 'KeyF': setShowFocalPoint(!showFocalPoint); break;
+        case 'KeyH': setShowUI(!showUI); break;
+        case 'BracketLeft': nudgeSpeed(-SPEED_NUDGE * nudge); break;
+        case 'BracketRight': nudgeSpeed(SPEED_NUDGE * nudge); break;
+        case 'Comma': nudgeHue(-HUE_NUDGE * nudge); break;
+        case 'Period': nudgeHue(HUE_NUDGE * nudge); break;
+        default: return;
+      }
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <div 
@@ -869,7 +3929,7 @@ const App: React.FC = () => {
           background: hsla(${hue}deg, 10%, 20%, 0.1);
         }
       `}</style>
-      <Canvas className="w-full h-full" shadows dpr={[1, 1.5]}>
+      <Canvas className="w-full h-full" shadows dpr={qualityTier ? qualityTier.dpr : [1, 1.5]}>
         <PerspectiveCamera makeDefault position={[cameraDistance, cameraDistance, cameraDistance]} />
         <OrbitControls
           makeDefault
@@ -878,7 +3938,7 @@ const App: React.FC = () => {
           autoRotateSpeed={0.3}
           enableDamping
         />
-        <ambientLight intensity={ambientIntensity} />
+        <ambientLight intensity={liveSettings.ambientIntensity} />
         {/* Omnidirectional point lights positioned around the scene */}
         <pointLight position={[20, 20, 20]} intensity={1} />
         <pointLight position={[-20, 20, 20]} intensity={1} />
@@ -891,25 +3951,52 @@ const App: React.FC = () => {
         
         <SceneContent 
           isDynamic={isDynamic}
-          speed={speed}
+          speed={liveSettings.speed}
           engineCenters={engineCenters}
-          engineRandomness={engineRandomness}
-          sphereSegments={sphereSegments}
+          engineRandomness={liveSettings.engineRandomness}
+          seed={seed}
+          weightScales={audioModulation?.weights ?? null}
+          gpuScaling={gpuScaling}
+          primitive={primitive}
+          customGeometry={customMesh?.geometry ?? null}
+          sphereSegments={renderSegments}
           baseSpheres={baseSpheres}
           config={config}
           focalPointsRef={focalPointsRef}
           showFocalPoint={showFocalPoint}
-          boundScale={boundScale}
+          boundScale={liveSettings.boundScale}
+          matrixBounds={matrixBounds}
           blendMode={blendMode}
-          lineOpacity={lineOpacity}
+          lineOpacity={liveSettings.lineOpacity}
+          linkDistance={matrix.spacing * LINK_FACTOR}
+          simulationEpoch={simulationEpoch}
+          pinnedCenters={pinnedCenters}
+          selectedCenter={selectedCenter}
+          onSelectCenter={selectCenter}
+          onPinCenter={(index) => setCenterPinned(index, true)}
+          motions={motions}
+          snapshotRef={snapshotRef}
+          samplerRef={samplerRef}
+          physics={physics}
+          floor={floorY}
         />
+        <FrameExporter exporterRef={exporterRef} />
 
-        <ContactShadows position={[0, -GRID_SIZE * 0.8, 0]} opacity={0.4} scale={GRID_SIZE * 4} blur={2.8} far={GRID_SIZE * 2} />
+        {(!qualityTier || qualityTier.contactShadows) && (
+          <ContactShadows
+            position={[0, floorY, 0]}
+            opacity={0.4}
+            scale={Math.max(matrixBounds.x, matrixBounds.z) * 6.67}
+            blur={2.8}
+            far={matrixBounds.y * 2 + matrix.spacing * 8}
+          />
+        )}
+        {(showPerf || qualityTarget !== null) && <PerfProbe onSample={handlePerfSample} />}
         <Environment preset="night" />
       </Canvas>
       
       {/* Hamburger Menu Button - Mobile Only */}
-      {showUI && !drawerOpen && (
+      {uiVisible && !drawerOpen && (
         <button
           onClick={() => setDrawerOpen(true)}
           className="max-[960px]:flex hidden lg:hidden absolute bottom-20 right-12 z-30 w-10 h-10 max-[960px]:w-12 max-[960px]:h-12 flex items-center justify-center rounded-lg border border-white/10 bg-neutral-900/80 text-white shadow-2xl backdrop-blur transition hover:border-white/30 hover:bg-neutral-800"
@@ -920,7 +4007,7 @@ const App: React.FC = () => {
       )}
 
       {/* Overlay - Mobile Only (closes drawer when tapping outside) */}
-      {showUI && drawerOpen && (
+      {uiVisible && drawerOpen && (
         <div
           onClick={() => setDrawerOpen(false)}
           className="max-[960px]:block lg:hidden fixed inset-0 z-[5] pointer-events-auto"
@@ -928,7 +4015,7 @@ const App: React.FC = () => {
       )}
 
       {/* Sidebar Controls */}
-      {showUI && (
+      {uiVisible && (
         <div
           className={`sidebar-scrollbar absolute top-0 left-0 h-screen w-80 pointer-events-auto flex flex-col gap-8 overflow-y-auto z-10 bg-neutral-900/70 backdrop-blur-2xl max-[960px]:pt-6 max-[960px]:pb-12 ${
             hasMounted ? 'max-[960px]:transition-transform max-[960px]:duration-300 max-[960px]:ease-in-out' : ''
@@ -943,6 +4030,74 @@ const App: React.FC = () => {
           
           {/* Sculpting Section */}
           <div className="pointer-events-auto p-7 shadow-2xl transition-all rounded-none">
+            <PresetPanel
+              settings={sceneSettings}
+              onApply={applySceneSettings}
+              accentColor={accentColor}
+              accentBorder={accentBorder}
+            />
+
+            <HistoryPanel
+              history={history}
+              showList={showHistory}
+              onToggleList={() => setShowHistory(!showHistory)}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={(index) => goToHistory(() => index)}
+              accentColor={accentColor}
+              accentSoft={accentSoft}
+              accentBorder={accentBorder}
+            />
+
+            <button
+              onClick={() => setShowTimeline(!showTimeline)}
+              className="w-full mb-8 flex items-center justify-center gap-2 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+              style={showTimeline ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+            >
+              <Clock size={14} />
+              Timeline{timeline.tracks.length > 0 ? ` · ${timeline.tracks.length}` : ''}
+            </button>
+
+            <div className="group space-y-4 mb-8">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">AI Sculptor</label>
+                <button
+                  onClick={handleResetSculpt}
+                  disabled={isSculpting}
+                  className="text-neutral-500 hover:text-white transition disabled:opacity-30"
+                  title="Reset Spheres"
+                >
+                  <RotateCcw size={14} className="max-[960px]:w-5 max-[960px]:h-5" />
+                </button>
+              </div>
+              <textarea
+                value={sculptPrompt}
+                onChange={(e) => setSculptPrompt(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSculpt();
+                  }
+                }}
+                placeholder="Make a wave across the top layer..."
+                rows={3}
+                disabled={isSculpting}
+                className="w-full resize-none rounded-lg border border-white/10 bg-neutral-800 px-3 py-2 text-xs max-[960px]:text-base text-white placeholder:text-neutral-600 focus:outline-none focus:border-white/30 disabled:opacity-50"
+              />
+              <button
+                onClick={handleSculpt}
+                disabled={isSculpting || !sculptPrompt.trim()}
+                className="w-full flex items-center justify-center gap-2 py-2 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all text-white active:scale-95 disabled:opacity-40 disabled:active:scale-100"
+                style={{ background: accentColor, borderColor: accentBorder, boxShadow: accentShadow }}
+              >
+                {isSculpting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                {isSculpting ? 'Sculpting' : 'Sculpt'}
+              </button>
+              {sculptMessage && (
+                <p className="text-[11px] max-[960px]:text-sm text-neutral-400 leading-relaxed">{sculptMessage}</p>
+              )}
+            </div>
+
             <div className="group space-y-4 mb-8">
               <div className="flex justify-between items-center">
                 <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Node Velocity</label>
@@ -975,6 +4130,156 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <div className="group space-y-4 mb-8">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Field Combine</label>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {COMBINE_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => setCombineMode(mode)}
+                    className="py-2 max-[960px]:py-3 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+                    style={combineMode === mode ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {combineMode === 'smooth' && (
+                <RangeControl
+                  label="Blend Radius" value={blendRadius} min={0.01} max={1} step={0.01}
+                  onChange={setBlendRadius}
+                  format={(v) => `${Math.round(v * 100)}%`}
+                  accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+                />
+              )}
+              {combineMode === 'subtract' && (
+                <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Mark centers negative below to hollow out the shape around them.</p>
+              )}
+            </div>
+
+            <div className="group space-y-4 mb-8">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Distance Metric</label>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {DISTANCE_METRICS.map(({ metric, label }) => (
+                  <button
+                    key={metric}
+                    onClick={() => setDistanceMetric(metric)}
+                    className="py-2 max-[960px]:py-3 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+                    style={distanceMetric === metric ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {(distanceMetric === 'cylindrical' || distanceMetric === 'planar') && (
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider mr-1">
+                    {distanceMetric === 'planar' ? 'Sweep' : 'Axis'}
+                  </span>
+                  {AXES.map(axis => (
+                    <button
+                      key={axis}
+                      onClick={() => setMetricAxis(axis)}
+                      className="flex-1 py-1.5 max-[960px]:py-2.5 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+                      style={metricAxis === axis ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+                    >
+                      {axis}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {([
+                ['X', axisScaleX, setAxisScaleX],
+                ['Y', axisScaleY, setAxisScaleY],
+                ['Z', axisScaleZ, setAxisScaleZ],
+              ] as const).map(([axis, value, setValue]) => (
+                <RangeControl
+                  key={axis}
+                  label={`Axis Scale ${axis}`} value={value} min={0.25} max={4} step={0.05}
+                  onChange={setValue}
+                  format={(v) => `${v.toFixed(2)}x`}
+                  accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+                />
+              ))}
+            </div>
+
+            <div className="group space-y-3 mb-8">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Focal Points</label>
+                <button
+                  onClick={() => { setShowFocalPoint(!showFocalPoint); setSelectedCenter(null); }}
+                  className="text-neutral-500 hover:text-white transition"
+                  title={showFocalPoint ? 'Hide Markers' : 'Show Markers'}
+                >
+                  {showFocalPoint ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+              </div>
+              {Array.from({ length: engineCenters }, (_, idx) => (
+                <div key={idx} className="flex items-center gap-2">
+                  <button
+                    onClick={() => selectCenter(idx)}
+                    className="flex-1 flex items-center justify-between px-3 py-1.5 text-[11px] max-[960px]:text-base rounded-lg border transition bg-neutral-800/60 text-neutral-300 border-white/5 hover:text-white hover:border-white/30"
+                    style={selectedCenter === idx ? { borderColor: accentColor, color: '#fff' } : undefined}
+                    title="Select to edit or drag in 3D"
+                  >
+                    <span className="font-bold uppercase tracking-wider">Center {idx + 1}</span>
+                    <span className="font-mono text-[10px]" style={pinnedCenters[idx] ? { color: PINNED_MARKER_COLOR } : undefined}>
+                      {pinnedCenters[idx] ? 'pinned' : MOTION_MODELS[motions[idx].kind].label.toLowerCase()}
+                    </span>
+                  </button>
+                  {combineMode === 'subtract' && (
+                    <button
+                      onClick={() => toggleCenterNegative(idx)}
+                      className="text-neutral-500 hover:text-white transition"
+                      style={negativeCenters[idx] ? { color: accentColor } : undefined}
+                      title={negativeCenters[idx] ? 'Make Positive' : 'Make Negative'}
+                    >
+                      {negativeCenters[idx] ? <Minus size={14} /> : <Plus size={14} />}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setCenterPinned(idx, !pinnedCenters[idx])}
+                    className="text-neutral-500 hover:text-white transition"
+                    title={pinnedCenters[idx] ? 'Release to Kinetic Engine' : 'Pin in Place'}
+                  >
+                    {pinnedCenters[idx] ? <PinOff size={14} /> : <Pin size={14} />}
+                  </button>
+                </div>
+              ))}
+              {selectedCenter !== null && (
+                <>
+                  <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Drag the gizmo to pin Center {selectedCenter + 1}; click its marker again to deselect.</p>
+                  <MotionEditor
+                    index={selectedCenter}
+                    motion={motions[selectedCenter]}
+                    onChange={(motion) => updateMotion(selectedCenter, motion)}
+                    onAddWaypoint={() => addWaypointFromCenter(selectedCenter)}
+                    accentColor={accentColor}
+                    accentSoft={accentSoft}
+                    accentBorder={accentBorder}
+                    accentShadow={accentShadow}
+                  />
+                  <CenterStyleEditor
+                    index={selectedCenter}
+                    style={centerStyles[selectedCenter]}
+                    onChange={(style) => updateCenterStyle(selectedCenter, style)}
+                    globalCurve={falloffCurve}
+                    globalHues={[hue, hue2]}
+                    minScale={minScale}
+                    maxScale={maxScale}
+                    accentColor={accentColor}
+                    accentSoft={accentSoft}
+                    accentBorder={accentBorder}
+                    accentShadow={accentShadow}
+                  />
+                </>
+              )}
+            </div>
+
             <div className="group space-y-4 mb-8">
               <div className="flex justify-between items-center">
                 <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Node Randomness</label>
@@ -986,28 +4291,42 @@ const App: React.FC = () => {
                 className="w-full h-2 max-[960px]:h-4 bg-neutral-800 rounded-lg appearance-none cursor-pointer disabled:opacity-30 transition-all touch-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 max-[960px]:[&::-webkit-slider-thumb]:w-7 max-[960px]:[&::-webkit-slider-thumb]:h-7 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-lg"
                 style={{ accentColor, touchAction: 'none' }}
               />
+              <div className="flex items-center gap-2">
+                <label htmlFor="seed-input" className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Seed</label>
+                <input
+                  id="seed-input"
+                  type="number" min="0" max={MAX_SEED} step="1" value={seed}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (Number.isFinite(value)) setSeed(Math.min(MAX_SEED, Math.max(0, value)));
+                  }}
+                  className="flex-1 min-w-0 bg-neutral-900 border border-white/10 rounded-lg px-3 py-1.5 text-xs max-[960px]:text-sm font-mono text-white focus:outline-none focus:border-white/30"
+                />
+                <button
+                  onClick={() => setSeed(rerollSeed())}
+                  className="p-2 rounded-lg border border-white/10 text-neutral-400 hover:text-white hover:border-white/30 transition"
+                  title="Reroll seed"
+                >
+                  <Dices size={14} />
+                </button>
+              </div>
             </div>
 
-            <div className="space-y-6 mt-10 mb-8">
-              <HueSlider 
+            <div className="mt-10 mb-8">
+              <GradientEditor
+                stops={gradient}
+                onChange={setGradient}
                 hue={hue}
+                hue2={hue2}
                 onHueChange={setHue}
-                label="Center Hue"
+                onHue2Change={setHue2}
+                driver={gradientDriver}
+                onDriverChange={setGradientDriver}
                 accentColor={accentColor}
                 accentSoft={accentSoft}
                 accentBorder={accentBorder}
+                accentShadow={accentShadow}
               />
-
-              <div className="pt-4 border-t border-white/5">
-                <HueSlider 
-                  hue={hue2}
-                  onHueChange={setHue2}
-                  label="Distance Hue"
-                  accentColor={`hsl(${hue2}deg, 80%, 60%)`}
-                  accentSoft={`hsla(${hue2}deg, 80%, 60%, 0.1)`}
-                  accentBorder={`hsla(${hue2}deg, 80%, 60%, 0.2)`}
-                />
-              </div>
             </div>
 
             <div className="group space-y-4 mb-8">
@@ -1055,15 +4374,131 @@ const App: React.FC = () => {
               />
             </div>
 
-            <BezierEditor 
-              p1x={p1x} p1y={p1y} p2x={p2x} p2y={p2y}
-              startY={curveStartY} endY={curveEndY}
-              onChange={(x1, y1, x2, y2) => { setP1x(x1); setP1y(y1); setP2x(x2); setP2y(y2); }}
-              onAnchorChange={(sY, eY) => { setCurveStartY(sY); setCurveEndY(eY); }}
+            <div className="group space-y-5 mb-8 pt-6 border-t border-white/5">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] max-[960px]:text-sm uppercase font-bold text-neutral-500 tracking-wider">Lattice</label>
+                <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">
+                  {matrix.cols}×{matrix.rows}×{matrix.layers} · {baseSpheres.length.toLocaleString()}
+                </span>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {LATTICE_LAYOUTS.map(({ layout, label }) => (
+                  <button
+                    key={layout}
+                    onClick={() => updateMatrix({ layout })}
+                    className="py-2 max-[960px]:py-3 text-[10px] max-[960px]:text-sm font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95"
+                    style={matrix.layout === layout ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <RangeControl
+                label="Columns (X)" value={matrix.cols} min={1} max={MAX_MATRIX_DIM} step={1}
+                onChange={(v) => updateMatrix({ cols: v })}
+                accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+              />
+              <RangeControl
+                label="Rows (Y)" value={matrix.rows} min={1} max={MAX_MATRIX_DIM} step={1}
+                onChange={(v) => updateMatrix({ rows: v })}
+                accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+              />
+              <RangeControl
+                label="Layers (Z)" value={matrix.layers} min={1} max={MAX_MATRIX_DIM} step={1}
+                onChange={(v) => updateMatrix({ layers: v })}
+                accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+              />
+              <RangeControl
+                label="Spacing" value={matrix.spacing} min={0.5} max={3} step={0.05}
+                onChange={(v) => updateMatrix({ spacing: v })}
+                format={(v) => v.toFixed(2)}
+                accentColor={accentColor} accentSoft={accentSoft} accentBorder={accentBorder}
+              />
+            </div>
+
+            <PrimitivePanel
+              primitive={primitive}
+              onPrimitiveChange={setPrimitive}
+              orientation={orientation}
+              onOrientationChange={setOrientation}
+              stretch={stretch}
+              onStretchChange={setStretch}
+              customName={customMesh?.name ?? null}
+              onUploadGlb={handleGlbUpload}
+              error={primitiveError}
+              accentColor={accentColor}
+              accentSoft={accentSoft}
+              accentBorder={accentBorder}
+              accentShadow={accentShadow}
+            />
+
+            <PhysicsPanel
+              physics={physics}
+              onChange={setPhysics}
+              gpuScaling={gpuScaling}
+              accentColor={accentColor}
+              accentSoft={accentSoft}
+              accentBorder={accentBorder}
+              accentShadow={accentShadow}
+            />
+
+            <CurveEditor
+              points={falloffCurve}
+              onChange={setFalloffCurve}
               minScale={minScale}
               maxScale={maxScale}
               accentColor={accentColor}
               accentBorder={accentBorder}
+              accentShadow={accentShadow}
+            />
+
+            <AudioPanel
+              input={audioInput}
+              settings={audioSettings}
+              onSettingsChange={setAudioSettings}
+              levels={audioLevels}
+              onOpenFile={(file) => openAudio(() => openAudioFile(file))}
+              onOpenMic={() => openAudio(openMicrophone)}
+              onStop={stopAudio}
+              loading={audioLoading}
+              error={audioError}
+              accentColor={accentColor}
+              accentSoft={accentSoft}
+              accentBorder={accentBorder}
+            />
+
+            <ExportPanel
+              options={exportOptions}
+              onChange={setExportOptions}
+              onExport={handleExport}
+              error={exportError}
+              accentColor={accentColor}
+              accentBorder={accentBorder}
+              accentShadow={accentShadow}
+            />
+
+            <GeometryExportPanel
+              options={meshExportOptions}
+              primitive={primitive}
+              onChange={setMeshExportOptions}
+              onExport={handleMeshExport}
+              busy={meshExporting}
+              error={meshExportError}
+              accentColor={accentColor}
+              accentSoft={accentSoft}
+              accentBorder={accentBorder}
+              accentShadow={accentShadow}
+            />
+
+            <PointCloudPanel
+              options={pointCloudOptions}
+              onChange={setPointCloudOptions}
+              onExport={handlePointCloudExport}
+              onImport={handlePointCloudImport}
+              error={pointCloudError}
+              accentColor={accentColor}
+              accentBorder={accentBorder}
+              accentShadow={accentShadow}
             />
 
             {/* Mobile-only controls (shown on screens < 960px) */}
@@ -1117,6 +4552,51 @@ const App: React.FC = () => {
                 />
               </div>
 
+              <QualityControls
+
+                target={qualityTarget}
+
+                onTargetChange={setQualityTarget}
+
+                showHud={showPerf}
+
+                onShowHudChange={setShowPerf}
+
+                tier={qualityTier}
+
+                accentColor={accentColor}
+
+                accentBorder={accentBorder}
+
+                accentShadow={accentShadow}
+
+              />
+
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-wider text-neutral-400">Scaling</span>
+                  <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{baseSpheres.length.toLocaleString()} spheres</span>
+                </div>
+                <div className="flex gap-2">
+                  {([false, true]).map(gpu => (
+                    <button
+                      key={String(gpu)}
+                      onClick={() => setGpuScaling(gpu)}
+                      disabled={gpu && physics !== null}
+                      className="flex-1 py-1.5 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95 disabled:opacity-30 disabled:pointer-events-none"
+                      style={(gpuScaling && !physics) === gpu ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+                      title={gpu ? 'Scale and tint spheres in the vertex shader (large lattices)' : 'Scale and tint spheres on the CPU'}
+                    >
+                      {gpu ? 'GPU' : 'CPU'}
+                    </button>
+                  ))}
+                </div>
+                {physics && (
+                  <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Physics runs on the CPU, so GPU scaling is unavailable while it is on.</p>
+                )}
+              </div>
+
               <div className="space-y-3">
                 <div className="flex items-center justify-between gap-4">
                   <span className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-wider text-neutral-400">Line Opacity</span>
@@ -1139,7 +4619,7 @@ const App: React.FC = () => {
       )}
 
       {/* Ambient Light Control - Desktop only (hidden on screens < 960px) */}
-      {showUI && (
+      {uiVisible && (
       <div className="absolute top-4 right-4 pointer-events-auto z-10 bg-neutral-900/80 border border-white/10 rounded-xl px-4 py-4 shadow-2xl backdrop-blur space-y-4 w-72 max-[960px]:hidden">
         <div className="space-y-3">
           <div className="flex items-center justify-between gap-4">
@@ -1190,6 +4670,51 @@ const App: React.FC = () => {
           />
         </div>
 
+        <QualityControls
+
+          target={qualityTarget}
+
+          onTargetChange={setQualityTarget}
+
+          showHud={showPerf}
+
+          onShowHudChange={setShowPerf}
+
+          tier={qualityTier}
+
+          accentColor={accentColor}
+
+          accentBorder={accentBorder}
+
+          accentShadow={accentShadow}
+
+        />
+
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-wider text-neutral-400">Scaling</span>
+            <span className="text-[10px] max-[960px]:text-sm font-mono text-neutral-500">{baseSpheres.length.toLocaleString()} spheres</span>
+          </div>
+          <div className="flex gap-2">
+            {([false, true]).map(gpu => (
+              <button
+                key={String(gpu)}
+                onClick={() => setGpuScaling(gpu)}
+                disabled={gpu && physics !== null}
+                className="flex-1 py-1.5 max-[960px]:py-3 text-[11px] max-[960px]:text-base font-bold uppercase tracking-wider rounded-lg border transition-all bg-neutral-800 text-neutral-400 border-white/10 hover:text-white hover:border-white/30 active:scale-95 disabled:opacity-30 disabled:pointer-events-none"
+                style={(gpuScaling && !physics) === gpu ? { background: accentColor, color: '#fff', borderColor: accentBorder, boxShadow: accentShadow } : undefined}
+                title={gpu ? 'Scale and tint spheres in the vertex shader (large lattices)' : 'Scale and tint spheres on the CPU'}
+              >
+                {gpu ? 'GPU' : 'CPU'}
+              </button>
+            ))}
+          </div>
+          {physics && (
+            <p className="text-[11px] max-[960px]:text-sm text-neutral-500">Physics runs on the CPU, so GPU scaling is unavailable while it is on.</p>
+          )}
+        </div>
+
         <div className="space-y-3">
           <div className="flex items-center justify-between gap-4">
             <span className="text-[10px] max-[960px]:text-sm uppercase font-bold tracking-wider text-neutral-400">Line Opacity</span>
@@ -1209,7 +4734,22 @@ const App: React.FC = () => {
       </div>
       )}
 
-      {showUI && !drawerOpen && (
+      {uiVisible && showTimeline && (
+        <TimelinePanel
+          timeline={timeline}
+          onTimelineChange={setTimeline}
+          playhead={playhead}
+          onScrub={scrubTimeline}
+          isPlaying={isTimelinePlaying}
+          onTogglePlay={toggleTimelinePlayback}
+          baseSettings={sceneSettings}
+          onClose={() => setShowTimeline(false)}
+          accentColor={accentColor}
+          accentBorder={accentBorder}
+        />
+      )}
+
+      {uiVisible && !drawerOpen && (
       <div className="absolute bottom-6 max-[960px]:bottom-20 max-[960px]:right-28 right-16 text-right block pointer-events-none z-10 opacity-40 group hover:opacity-100 transition-opacity duration-500">
         <div className="text-[10px] max-[960px]:text-sm text-neutral-400 font-mono tracking-widest space-y-1">
           <p className="font-bold" style={{ color: '#fafafa' }}>PARTICLE BOUNCE HOUSE</p>
@@ -1218,14 +4758,47 @@ const App: React.FC = () => {
       </div>
       )}
 
+      {exportProgress && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 w-80 pointer-events-auto bg-neutral-900/85 border border-white/10 rounded-xl p-4 shadow-2xl backdrop-blur space-y-3">
+          <div className="flex justify-between items-center text-[10px] uppercase font-bold tracking-wider text-neutral-400">
+            <span>{exportProgress.label}</span>
+            <span className="font-mono">{exportProgress.frame} / {exportProgress.total}</span>
+          </div>
+          <div className="h-2 rounded-full bg-neutral-800 overflow-hidden">
+            <div className="h-full rounded-full transition-[width]" style={{ width: `${(exportProgress.frame / exportProgress.total) * 100}%`, background: accentColor }} />
+          </div>
+          <button
+            onClick={() => exportAbortRef.current?.abort()}
+            className="w-full py-2 text-[11px] font-bold uppercase tracking-wider rounded-lg border border-white/10 bg-neutral-800 text-neutral-300 hover:text-white hover:border-white/30 transition active:scale-95"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {showPerf && !exportProgress && (
+        <PerfHud sample={perfSample} instances={baseSpheres.length} tier={qualityTier} />
+      )}
+
+      {showPalette && (
+        <CommandPalette
+          commands={buildCommands()}
+          onClose={() => setShowPalette(false)}
+          accentColor={accentColor}
+          accentSoft={accentSoft}
+        />
+      )}
+
       {/* UI Visibility Toggle */}
+      {!exportProgress && (
       <button
         onClick={() => setShowUI(!showUI)}
         className="absolute bottom-5 max-[960px]:bottom-12 right-4 max-[960px]:right-12 z-20 w-10 h-10 max-[960px]:w-14 max-[960px]:h-14 max-[960px]:hidden flex items-center justify-center rounded-lg border border-white/10 bg-neutral-900/80 text-white shadow-2xl backdrop-blur transition hover:border-white/30 hover:bg-neutral-800"
-        title={showUI ? "Hide UI" : "Show UI"}
+        title={showUI ? `Hide UI (${SHORTCUTS.hideUI})` : `Show UI (${SHORTCUTS.hideUI})`}
       >
         {showUI ? <EyeOff size={18} className="max-[960px]:w-6 max-[960px]:h-6" /> : <Eye size={18} className="max-[960px]:w-6 max-[960px]:h-6" />}
       </button>
+      )}
     </div>
   );
 };
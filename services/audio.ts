@@ -0,0 +1,214 @@
+import { SceneSettings } from "../types";
+import { MAX_ENGINE_CENTERS, orderSettings } from "./sceneSettings";
+
+export type AudioTarget = "speed" | "maxScale" | "boundScale" | "hueShift" | "weight0" | "weight1" | "weight2";
+
+/**
+ * What each target adds at full level and amount 1. Weights scale a center's reach.
+ */
+export const AUDIO_TARGETS: { target: AudioTarget; label: string; span: number }[] = [
+  { target: "speed", label: "Speed", span: 6 },
+  { target: "maxScale", label: "Max Scale", span: 2 },
+  { target: "boundScale", label: "Bounds Area", span: 1.5 },
+  { target: "hueShift", label: "Hue Shift", span: 180 },
+  { target: "weight0", label: "Center 1 Weight", span: 1.5 },
+  { target: "weight1", label: "Center 2 Weight", span: 1.5 },
+  { target: "weight2", label: "Center 3 Weight", span: 1.5 },
+];
+
+export type AudioSource = "level" | "band";
+
+export interface AudioMapping {
+  id: string;
+  /** Overall RMS level, or the average magnitude of a frequency band. */
+  source: AudioSource;
+  lowHz: number;
+  highHz: number;
+  target: AudioTarget;
+  amount: number;
+}
+
+export interface AudioSettings {
+  gain: number;
+  /** Analyser smoothing time constant, 0 (raw) to 0.95 (sluggish). */
+  smoothing: number;
+  mappings: AudioMapping[];
+}
+
+export const MIN_HZ = 20;
+export const MAX_HZ = 16000;
+
+export const AUDIO_BANDS: { label: string; lowHz: number; highHz: number }[] = [
+  { label: "Bass", lowHz: 20, highHz: 250 },
+  { label: "Mid", lowHz: 250, highHz: 2000 },
+  { label: "Treble", lowHz: 2000, highHz: 16000 },
+];
+
+let mappingCounter = 0;
+
+export const createAudioMapping = (target: AudioTarget = "maxScale"): AudioMapping => ({
+  id: `am-${Date.now().toString(36)}-${mappingCounter++}`,
+  source: "band",
+  lowHz: AUDIO_BANDS[0].lowHz,
+  highHz: AUDIO_BANDS[0].highHz,
+  target,
+  amount: 0.5,
+});
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  gain: 1,
+  smoothing: 0.8,
+  mappings: [createAudioMapping()],
+};
+
+// Frequencies are edited on a log scale so the bass range is not squeezed into the first pixels.
+export const hzToPosition = (hz: number) => Math.log(hz / MIN_HZ) / Math.log(MAX_HZ / MIN_HZ);
+export const positionToHz = (position: number) => MIN_HZ * Math.pow(MAX_HZ / MIN_HZ, position);
+
+export const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`);
+
+/**
+ * A running analyser fed by a file or the microphone. Call `stop` to release the source.
+ */
+export interface AudioInput {
+  kind: "file" | "mic";
+  label: string;
+  analyser: AnalyserNode;
+  /** Latest byte spectrum, refreshed by sampleAudio. */
+  frequencyData: Uint8Array<ArrayBuffer>;
+  timeData: Uint8Array<ArrayBuffer>;
+  stop(): void;
+}
+
+function createInput(
+  context: AudioContext,
+  source: AudioNode,
+  kind: AudioInput["kind"],
+  label: string,
+  cleanup: () => void
+): AudioInput {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  // Files are heard through the speakers; the microphone is not, to avoid feedback
+  if (kind === "file") analyser.connect(context.destination);
+
+  return {
+    kind,
+    label,
+    analyser,
+    frequencyData: new Uint8Array(analyser.frequencyBinCount),
+    timeData: new Uint8Array(analyser.fftSize),
+    stop() {
+      cleanup();
+      source.disconnect();
+      analyser.disconnect();
+      void context.close();
+    },
+  };
+}
+
+/**
+ * Plays a local audio file on loop and analyses it.
+ */
+export async function openAudioFile(file: File): Promise<AudioInput> {
+  const context = new AudioContext();
+  const url = URL.createObjectURL(file);
+  const element = new Audio(url);
+  element.loop = true;
+  try {
+    await element.play();
+  } catch {
+    URL.revokeObjectURL(url);
+    void context.close();
+    throw new Error(`Could not play "${file.name}".`);
+  }
+  const source = context.createMediaElementSource(element);
+  return createInput(context, source, "file", file.name, () => {
+    element.pause();
+    URL.revokeObjectURL(url);
+  });
+}
+
+export async function openMicrophone(): Promise<AudioInput> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error("This browser does not support microphone input.");
+  }
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch {
+    throw new Error("Microphone access was denied.");
+  }
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  return createInput(context, source, "mic", "Microphone", () => {
+    stream.getTracks().forEach((track) => track.stop());
+  });
+}
+
+function measure(input: AudioInput, mapping: AudioMapping, gain: number): number {
+  if (mapping.source === "level") {
+    let sum = 0;
+    for (let i = 0; i < input.timeData.length; i++) {
+      const v = (input.timeData[i] - 128) / 128;
+      sum += v * v;
+    }
+    // RMS of typical program material sits well below 1, so lift it into a usable range
+    return Math.min(1, Math.sqrt(sum / input.timeData.length) * 3 * gain);
+  }
+  const binHz = input.analyser.context.sampleRate / input.analyser.fftSize;
+  const low = Math.max(0, Math.floor(Math.min(mapping.lowHz, mapping.highHz) / binHz));
+  const high = Math.min(input.frequencyData.length - 1, Math.ceil(Math.max(mapping.lowHz, mapping.highHz) / binHz));
+  let sum = 0;
+  for (let i = low; i <= high; i++) sum += input.frequencyData[i];
+  return Math.min(1, (sum / Math.max(1, high - low + 1) / 255) * gain);
+}
+
+/**
+ * Refreshes the analyser buffers and returns a 0-1 level for each mapping.
+ */
+export function sampleAudio(input: AudioInput, settings: AudioSettings): number[] {
+  input.analyser.smoothingTimeConstant = settings.smoothing;
+  input.analyser.getByteFrequencyData(input.frequencyData);
+  input.analyser.getByteTimeDomainData(input.timeData);
+  return settings.mappings.map((mapping) => measure(input, mapping, settings.gain));
+}
+
+/**
+ * Adds each mapping's contribution on top of the rendered settings, clamped back into the
+ * settings' ranges. Returns per-center weight multipliers alongside, since weights live in the
+ * scene rather than in settings.
+ */
+export function applyAudioModulation(
+  settings: SceneSettings,
+  mappings: AudioMapping[],
+  levels: number[]
+): { settings: SceneSettings; weights: number[] } {
+  const next = { ...settings };
+  const weights = Array.from({ length: MAX_ENGINE_CENTERS }, () => 1);
+  let hueShift = 0;
+
+  mappings.forEach((mapping, i) => {
+    const span = AUDIO_TARGETS.find((t) => t.target === mapping.target)?.span ?? 0;
+    const offset = (levels[i] ?? 0) * mapping.amount * span;
+    switch (mapping.target) {
+      case "speed":
+      case "maxScale":
+      case "boundScale":
+        next[mapping.target] += offset;
+        break;
+      case "hueShift":
+        hueShift += offset;
+        break;
+      default:
+        weights[Number(mapping.target.slice(-1))] += offset;
+    }
+  });
+  next.hue = (next.hue + hueShift) % 360;
+  next.hue2 = (next.hue2 + hueShift) % 360;
+  if (next.gradient && hueShift !== 0) {
+    next.gradient = next.gradient.map((stop) => ({ ...stop, hue: (stop.hue + hueShift) % 360 }));
+  }
+  return { settings: orderSettings(next), weights };
+}
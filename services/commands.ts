@@ -0,0 +1,72 @@
+/**
+ * An entry in the command palette. Actions just run; parameters carry their current value
+ * and range, and run with the number typed after their name.
+ */
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** Heading it is listed under, e.g. "View" or "Parameter". */
+  group: string;
+  shortcut?: string;
+  value?: number;
+  range?: { min: number; max: number };
+  run: (value?: number) => void;
+}
+
+export interface CommandMatch {
+  command: PaletteCommand;
+  /** Number typed for a parameter, if any. */
+  value: number | null;
+}
+
+/**
+ * Keyboard shortcuts outside text fields, as listed in the palette and README.
+ */
+export const SHORTCUTS = {
+  palette: "Ctrl/Cmd+K",
+  undo: "Ctrl/Cmd+Z",
+  redo: "Shift+Ctrl/Cmd+Z",
+  pause: "Space",
+  centers: "1-3",
+  blend: "B",
+  markers: "F",
+  hideUI: "H",
+  speedDown: "[",
+  speedUp: "]",
+  hueDown: ",",
+  hueUp: ".",
+} as const;
+
+/** Speed and hue nudges per key press; Shift multiplies them by SHIFT_NUDGE. */
+export const SPEED_NUDGE = 0.1;
+export const HUE_NUDGE = 5;
+export const SHIFT_NUDGE = 10;
+
+// "speed 2.5" or "speed=2.5" → the name part and the number
+const parseQuery = (query: string) => {
+  const match = query.trim().match(/^(.*?)[\s=:]*(-?\d*\.?\d+)$/);
+  if (match && match[1].trim() !== "") return { text: match[1].trim(), value: Number(match[2]) };
+  return { text: query.trim(), value: null };
+};
+
+/**
+ * Commands whose label (or group) contains every word of the query, best matches first:
+ * labels that start with the query, then earlier matches. A trailing number is taken as
+ * the value for parameters and ignored for actions.
+ */
+export function searchCommands(commands: PaletteCommand[], query: string): CommandMatch[] {
+  const { text, value } = parseQuery(query);
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands.map((command) => ({ command, value: null }));
+
+  return commands
+    .flatMap((command, order) => {
+      const label = command.label.toLowerCase();
+      const haystack = `${label} ${command.group.toLowerCase()}`;
+      if (!words.every((word) => haystack.includes(word))) return [];
+      const score = (label.startsWith(text.toLowerCase()) ? 0 : 1000) + words.reduce((sum, word) => sum + Math.max(0, label.indexOf(word)), 0);
+      return [{ command, value: command.range ? value : null, score, order }];
+    })
+    .sort((a, b) => a.score - b.score || a.order - b.order)
+    .map(({ command, value: typed }) => ({ command, value: typed }));
+}
@@ -0,0 +1,191 @@
+import { CurvePoint, CurveSegment } from "../types";
+
+export const MAX_CURVE_POINTS = 12;
+
+export const CURVE_SEGMENTS: { segment: CurveSegment; label: string }[] = [
+  { segment: "bezier", label: "Bezier" },
+  { segment: "linear", label: "Linear" },
+  { segment: "step", label: "Step" },
+];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const cubicBezierCoord = (t: number, p0: number, p1: number, p2: number, p3: number) => {
+  const cx = 3 * (p1 - p0);
+  const bx = 3 * (p2 - p1) - cx;
+  const ax = p3 - p0 - cx - bx;
+  return ax * Math.pow(t, 3) + bx * Math.pow(t, 2) + cx * t + p0;
+};
+
+/**
+ * Samples a cubic Bezier defined by (0,startY)-(p1x,p1y)-(p2x,p2y)-(1,endY) at a normalized x (u).
+ * Uses a binary search on t; x(t) never decreases while both handle x values lie in 0-1.
+ */
+export const sampleBezierY = (
+  u: number,
+  p1x: number,
+  p1y: number,
+  p2x: number,
+  p2y: number,
+  startY: number,
+  endY: number
+) => {
+  const targetX = clamp01(u);
+  let low = 0;
+  let high = 1;
+  let t = targetX;
+
+  for (let i = 0; i < 24; i++) {
+    const mid = (low + high) / 2;
+    const x = cubicBezierCoord(mid, 0, clamp01(p1x), clamp01(p2x), 1);
+    if (Math.abs(x - targetX) < 1e-4) {
+      t = mid;
+      break;
+    }
+    if (x < targetX) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+    t = mid;
+  }
+
+  return cubicBezierCoord(t, startY, p1y, p2y, endY);
+};
+
+const point = (
+  x: number,
+  y: number,
+  segment: CurveSegment = "bezier",
+  handles: CurvePoint["handles"] = [0.5, y, 0.5, y]
+): CurvePoint => ({ x, y, segment, handles });
+
+// Smooth span whose tangents are flat at both ends, so peaks and troughs stay rounded
+const smooth = (x: number, y: number, nextY: number) => point(x, y, "bezier", [0.5, y, 0.5, nextY]);
+
+/**
+ * The original single-segment curve: vertical-only anchors at the center and edge plus
+ * two handles. Settings keep this shape in their own (animatable) fields.
+ */
+export const classicCurve = (p1x: number, p1y: number, p2x: number, p2y: number, startY: number, endY: number) => [
+  point(0, startY, "bezier", [p1x, p1y, p2x, p2y]),
+  point(1, endY),
+];
+
+/**
+ * The classic fields for a curve that still has that shape, or null when it does not.
+ */
+export const toClassic = (points: CurvePoint[]) => {
+  if (points.length !== 2 || points[0].segment !== "bezier") return null;
+  const [p1x, p1y, p2x, p2y] = points[0].handles;
+  if (p1x < 0.01 || p2x > 0.99 || p1x >= p2x) return null;
+  return { p1x, p1y, p2x, p2y, startY: points[0].y, endY: points[1].y };
+};
+
+const ripple = Array.from({ length: 9 }, (_, i) => {
+  const y = i % 2 === 0 ? 1 - i * 0.08 : 0.1;
+  const nextY = i % 2 === 0 ? 0.1 : 1 - (i + 1) * 0.08;
+  return smooth(i / 8, y, nextY);
+});
+
+/**
+ * Built-in shapes. Those with the classic shape (Classic, Inverted) are stored in the
+ * single-Bezier fields, where the timeline can still animate them.
+ */
+export const CURVE_PRESETS: { label: string; points: CurvePoint[] }[] = [
+  { label: "Classic", points: classicCurve(0.33, 0.8, 0.66, 0.2, 1, 0) },
+  { label: "Ease In", points: [point(0, 1, "bezier", [0.42, 1, 1, 0]), point(1, 0)] },
+  { label: "Ease Out", points: [point(0, 1, "bezier", [0, 1, 0.58, 0]), point(1, 0)] },
+  { label: "Ring", points: [smooth(0, 0, 1), smooth(0.5, 1, 0), point(1, 0)] },
+  {
+    label: "Double Ring",
+    points: [smooth(0, 0, 1), smooth(0.3, 1, 0.15), smooth(0.5, 0.15, 1), smooth(0.7, 1, 0), point(1, 0)],
+  },
+  { label: "Step", points: [point(0, 1, "step"), point(0.33, 0.66, "step"), point(0.66, 0.33, "step"), point(1, 0)] },
+  { label: "Sine Ripple", points: ripple },
+  { label: "Inverted", points: [point(0, 0, "bezier", [0.33, 0.2, 0.66, 0.8]), point(1, 1)] },
+];
+
+export const sortPoints = (points: CurvePoint[]) => [...points].sort((a, b) => a.x - b.x);
+
+// Level of one span at u, with u inside [a.x, b.x] and the span wider than zero
+const sampleSpan = (a: CurvePoint, b: CurvePoint, u: number) => {
+  const f = (u - a.x) / (b.x - a.x);
+  if (a.segment === "step") return f < 1 ? a.y : b.y;
+  if (a.segment === "linear") return a.y + (b.y - a.y) * f;
+  const [h1x, h1y, h2x, h2y] = a.handles;
+  return sampleBezierY(f, h1x, h1y, h2x, h2y, a.y, b.y);
+};
+
+/**
+ * Curve level (0-1) at u. Points are walked in x order and zero-width spans are skipped,
+ * so the lookup never runs backwards however the points were dragged.
+ */
+export function sampleCurve(points: CurvePoint[], u: number) {
+  const sorted = sortPoints(points);
+  let k = 0;
+  while (k < sorted.length - 2 && u >= sorted[k + 1].x) k++;
+  const a = sorted[k];
+  const b = sorted[Math.min(sorted.length - 1, k + 1)];
+  if (u <= a.x) return clamp01(a.y);
+  if (u >= b.x || b.x <= a.x) return clamp01(b.y);
+  return clamp01(sampleSpan(a, b, u));
+}
+
+/**
+ * Adds a point on the curve at x without changing its shape: a Bezier span is split in
+ * two at that point (de Casteljau), other spans keep their type on both sides.
+ */
+export function insertPoint(points: CurvePoint[], x: number) {
+  const sorted = sortPoints(points);
+  const k = sorted.findIndex((p, i) => i < sorted.length - 1 && p.x < x && sorted[i + 1].x > x);
+  if (k < 0 || sorted.length >= MAX_CURVE_POINTS) return sorted;
+  const a = sorted[k];
+  const b = sorted[k + 1];
+  const f = (x - a.x) / (b.x - a.x);
+  let before = a;
+  let inserted: CurvePoint;
+  if (a.segment === "bezier") {
+    const [h1x, h1y, h2x, h2y] = a.handles;
+    // Curve parameter where the span reaches f
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 24; i++) {
+      const mid = (low + high) / 2;
+      if (cubicBezierCoord(mid, 0, clamp01(h1x), clamp01(h2x), 1) < f) low = mid;
+      else high = mid;
+    }
+    const t = (low + high) / 2;
+    const split = (p0: number, p1: number, p2: number, p3: number) => {
+      const lerp = (u: number, v: number) => u + (v - u) * t;
+      const p01 = lerp(p0, p1);
+      const p12 = lerp(p1, p2);
+      const p23 = lerp(p2, p3);
+      const p012 = lerp(p01, p12);
+      const p123 = lerp(p12, p23);
+      return [p01, p012, lerp(p012, p123), p123, p23];
+    };
+    const [x01, x012, mx, x123, x23] = split(0, clamp01(h1x), clamp01(h2x), 1);
+    const [y01, y012, my, y123, y23] = split(a.y, h1y, h2y, b.y);
+    before = { ...a, handles: [clamp01(x01 / mx), y01, clamp01(x012 / mx), y012] };
+    inserted = point(x, my, "bezier", [clamp01((x123 - mx) / (1 - mx)), y123, clamp01((x23 - mx) / (1 - mx)), y23]);
+  } else {
+    inserted = point(x, a.segment === "step" ? a.y : a.y + (b.y - a.y) * f, a.segment);
+  }
+  return [...sorted.slice(0, k), before, inserted, ...sorted.slice(k + 1)];
+}
+
+/**
+ * Generates a lookup table for sphere scales: distance (0 center, 1 edge) → a scale
+ * between minScale and maxScale.
+ */
+export function generateScaleLUT(points: CurvePoint[], size: number, minScale: number, maxScale: number) {
+  const lut = new Float32Array(size);
+  const sorted = sortPoints(points);
+  for (let i = 0; i < size; i++) {
+    const level = sampleCurve(sorted, size > 1 ? i / (size - 1) : 0);
+    // Map 0-1 range to user-defined min/max bounds
+    lut[i] = minScale + level * (maxScale - minScale);
+  }
+  return lut;
+}
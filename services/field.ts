@@ -0,0 +1,382 @@
+import { Axis, CombineMode, DistanceMetric, GradientDriver, Orientation, Vec3 } from "../types";
+
+export const COMBINE_MODES: { mode: CombineMode; label: string }[] = [
+  { mode: "min", label: "Nearest" },
+  { mode: "smooth", label: "Smooth" },
+  { mode: "additive", label: "Metaball" },
+  { mode: "multiply", label: "Multiply" },
+  { mode: "subtract", label: "Subtract" },
+];
+
+export const DISTANCE_METRICS: { metric: DistanceMetric; label: string }[] = [
+  { metric: "euclidean", label: "Euclidean" },
+  { metric: "manhattan", label: "Manhattan" },
+  { metric: "chebyshev", label: "Chebyshev" },
+  { metric: "cylindrical", label: "Cylinder" },
+  { metric: "planar", label: "Planar" },
+];
+
+export const AXES: Axis[] = ["x", "y", "z"];
+
+/**
+ * Length of an offset (x, y, z) under a metric; `axis` is 0-2 for x-z.
+ */
+export function metricLength(metric: DistanceMetric, axis: number, x: number, y: number, z: number) {
+  switch (metric) {
+    case "manhattan":
+      return Math.abs(x) + Math.abs(y) + Math.abs(z);
+    case "chebyshev":
+      return Math.max(Math.abs(x), Math.abs(y), Math.abs(z));
+    case "cylindrical":
+      return axis === 0 ? Math.hypot(y, z) : axis === 1 ? Math.hypot(x, z) : Math.hypot(x, y);
+    case "planar":
+      return Math.abs(axis === 0 ? x : axis === 1 ? y : z);
+    default:
+      return Math.sqrt(x * x + y * y + z * z);
+  }
+}
+
+/**
+ * Distance that counts as the edge of the field: the metric's length of the lattice's
+ * half-extents (divided by the axis scales) plus a 10% margin, so the curve runs from
+ * center to edge whichever metric is active.
+ */
+export function metricMaxDist(metric: DistanceMetric, axis: Axis, halfExtents: Vec3, axisScale: Vec3) {
+  const [x, y, z] = halfExtents.map((h, i) => h / axisScale[i]);
+  return Math.max(1e-6, metricLength(metric, AXES.indexOf(axis), x, y, z) * 1.1);
+}
+
+/**
+ * Static per-instance inputs for the CPU field evaluation, packed flat so they can be
+ * posted to a worker. Colors are linear RGB; `tinted` is 1 where the tint gradient applies.
+ * `gradientCoords` holds each instance's normalized height and grid index (0-1).
+ */
+export interface FieldLattice {
+  count: number;
+  positions: Float64Array;
+  scales: Float64Array;
+  colors: Float32Array;
+  tinted: Uint8Array;
+  gradientCoords: Float32Array;
+}
+
+/**
+ * Per-frame inputs: focal points (xyz per center), their weights and radii, how the centers
+ * combine and each center's scale/tint mapping. `lut` holds `lutSize` entries per center and
+ * `gradient` `gradientSize` RGBA entries per center, looked up by `driver`. `blend` is the
+ * smooth-min radius as a fraction of a center's reach and `negative` is 1 for centers that
+ * carve in subtractive mode. Offsets from a center are divided by `axisScale` and measured
+ * with `metric`.
+ */
+export interface FieldFrame {
+  focal: Float64Array;
+  weights: Float64Array;
+  radii: Float64Array;
+  negative: Uint8Array;
+  centers: number;
+  combine: CombineMode;
+  blend: number;
+  maxDist: number;
+  metric: DistanceMetric;
+  axis: Axis;
+  axisScale: Float64Array;
+  minScale: number;
+  maxScale: number;
+  lut: Float32Array;
+  lutSize: number;
+  gradient: Float32Array;
+  gradientSize: number;
+  driver: GradientDriver;
+  orientation: Orientation;
+  stretch: number;
+}
+
+// Polynomial smooth minimum; k is the distance over which the two values blend
+const smoothMin = (a: number, b: number, k: number) => {
+  if (!Number.isFinite(a)) return b;
+  const h = Math.max(k - Math.abs(a - b), 0) / k;
+  return Math.min(a, b) - h * h * k * 0.25;
+};
+
+/**
+ * Writes a 4x4 instance matrix (16 floats), an RGB color (3 floats) and an alpha per sphere:
+ * combined focal distance → LUT scale, and the gradient color at the driver's position. Where
+ * the centers look different, soft combine modes mix their LUTs and tints by proximity while
+ * the hard ones (nearest, subtract) take the nearest center's. Oriented instances turn their +Y axis toward the nearest focal point or along the
+ * direction in which the scale grows, and stretch along it.
+ * When `samples` is given it receives each sphere's computed scale and field distance
+ * (Infinity while no center is active), two floats per sphere.
+ */
+export function evaluateField(
+  lattice: FieldLattice,
+  frame: FieldFrame,
+  matrices: Float32Array,
+  colors: Float32Array,
+  alphas: Float32Array,
+  samples?: Float32Array
+) {
+  const { count, positions, scales, colors: baseColors, tinted, gradientCoords } = lattice;
+  const {
+    focal, weights, radii, negative, centers, combine, blend, maxDist, metric, axis, axisScale,
+    minScale, maxScale, lut, lutSize, gradient, gradientSize, driver, orientation, stretch,
+  } = frame;
+  const last = lutSize - 1;
+  const shares = new Float64Array(centers);
+  const h = maxDist * 1e-3;
+  const hard = combine === "min" || combine === "subtract";
+  const axisIndex = AXES.indexOf(axis);
+  const [sx, sy, sz] = axisScale;
+  // Each center's distance from the latest fieldDistance call
+  const reach = new Float64Array(centers);
+  let nearest = -1;
+
+  // Metric distance to each center in units of its reach (maxDist × weight × radius), merged per
+  // combine mode so 1 is the edge of the field; Infinity when no center is active
+  const fieldDistance = (x: number, y: number, z: number) => {
+    let dist = Infinity;
+    let carve = Infinity;
+    let sum = 0;
+    let product = 1;
+    let nearestDist = Infinity;
+    nearest = -1;
+    for (let c = 0; c < centers; c++) {
+      reach[c] = Infinity;
+      const w = weights[c];
+      if (w < 0.001) continue;
+      const dx = (x - focal[c * 3]) / sx;
+      const dy = (y - focal[c * 3 + 1]) / sy;
+      const dz = (z - focal[c * 3 + 2]) / sz;
+      const d = metricLength(metric, axisIndex, dx, dy, dz) / (w * radii[c] * maxDist);
+      reach[c] = d;
+      if (combine === "subtract" && negative[c]) {
+        carve = Math.min(carve, d);
+        continue;
+      }
+      if (d < nearestDist) {
+        nearestDist = d;
+        nearest = c;
+      }
+      if (combine === "smooth") {
+        dist = smoothMin(dist, d, blend);
+      } else if (combine === "additive") {
+        const r = Math.min(1, d);
+        sum += (1 - r * r) * (1 - r * r);
+        dist = 0;
+      } else if (combine === "multiply") {
+        product *= Math.min(1, d);
+        dist = 0;
+      } else {
+        dist = Math.min(dist, d);
+      }
+    }
+    if (!Number.isFinite(dist)) return dist;
+    // Invert the single-center kernel so one center gives back its plain distance
+    if (combine === "additive") return Math.sqrt(1 - Math.sqrt(Math.min(1, sum)));
+    if (combine === "multiply") return product;
+    if (combine === "subtract" && Number.isFinite(carve)) return Math.max(dist, 1 - carve);
+    return dist;
+  };
+
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    const dist = fieldDistance(x, y, z);
+    const t = Math.min(1, dist);
+    const idx = Math.floor(t * last);
+    const next = Math.min(last, idx + 1);
+
+    // Mix the centers' looks; the nearest one stands in when no center reaches this far
+    let total = 0;
+    let fieldScale = 0;
+    let slope = 0;
+    for (let pass = 0; pass < 2 && total === 0; pass++) {
+      for (let c = 0; c < centers; c++) {
+        let share = 0;
+        if (hard || pass === 1) {
+          share = c === Math.max(0, nearest) ? 1 : 0;
+        } else {
+          const q = 1 - Math.min(1, reach[c]);
+          share = q * q;
+        }
+        shares[c] = share;
+        if (share === 0) continue;
+        const k = c * lutSize;
+        total += share;
+        fieldScale += (lut[k + idx] || minScale) * share;
+        slope += (lut[k + next] - lut[k + idx]) * share;
+      }
+    }
+    fieldScale /= total;
+
+    // Axis the instance's +Y is turned onto (unit), or none for the identity rotation
+    let ax = 0;
+    let ay = 1;
+    let az = 0;
+    if (orientation === "focal" && nearest >= 0) {
+      ax = focal[nearest * 3] - x;
+      ay = focal[nearest * 3 + 1] - y;
+      az = focal[nearest * 3 + 2] - z;
+    } else if (orientation === "gradient" && Number.isFinite(dist)) {
+      const sign = slope < 0 ? -1 : 1;
+      ax = (fieldDistance(x + h, y, z) - fieldDistance(x - h, y, z)) * sign;
+      ay = (fieldDistance(x, y + h, z) - fieldDistance(x, y - h, z)) * sign;
+      az = (fieldDistance(x, y, z + h) - fieldDistance(x, y, z - h)) * sign;
+    }
+    const len = Math.sqrt(ax * ax + ay * ay + az * az);
+    if (len > 1e-9) {
+      ax /= len;
+      ay /= len;
+      az /= len;
+    } else {
+      ax = 0;
+      ay = 1;
+      az = 0;
+    }
+
+    const s = fieldScale * scales[i];
+    const sy = s * (1 + stretch * fieldScale);
+    if (samples) {
+      samples[i * 2] = s;
+      samples[i * 2 + 1] = dist;
+    }
+    const m = i * 16;
+    if (ay < -0.9999) {
+      // Pointing straight down: half turn about X
+      matrices.set([s, 0, 0, 0, 0, -sy, 0, 0, 0, 0, -s, 0], m);
+    } else {
+      // Rotation taking +Y onto the axis (Rodrigues), stored column by column
+      const k = 1 / (1 + ay);
+      matrices[m] = (1 - ax * ax * k) * s;
+      matrices[m + 1] = -ax * s;
+      matrices[m + 2] = -ax * az * k * s;
+      matrices[m + 3] = 0;
+      matrices[m + 4] = ax * sy;
+      matrices[m + 5] = ay * sy;
+      matrices[m + 6] = az * sy;
+      matrices[m + 7] = 0;
+      matrices[m + 8] = -ax * az * k * s;
+      matrices[m + 9] = -az * s;
+      matrices[m + 10] = (1 - az * az * k) * s;
+      matrices[m + 11] = 0;
+    }
+    matrices[m + 12] = x;
+    matrices[m + 13] = y;
+    matrices[m + 14] = z;
+    matrices[m + 15] = 1;
+
+    const c = i * 3;
+    if (tinted[i]) {
+      let u = t;
+      if (driver === "scale") u = Math.min(1, Math.max(0, (fieldScale - minScale) / Math.max(1e-6, maxScale - minScale)));
+      else if (driver === "height") u = gradientCoords[i * 2];
+      else if (driver === "index") u = gradientCoords[i * 2 + 1];
+      const gi = Math.floor(u * (gradientSize - 1));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < centers; k++) {
+        if (shares[k] === 0) continue;
+        const o = (k * gradientSize + gi) * 4;
+        r += gradient[o] * shares[k];
+        g += gradient[o + 1] * shares[k];
+        b += gradient[o + 2] * shares[k];
+        a += gradient[o + 3] * shares[k];
+      }
+      colors[c] = r / total;
+      colors[c + 1] = g / total;
+      colors[c + 2] = b / total;
+      alphas[i] = a / total;
+    } else {
+      colors[c] = baseColors[c];
+      colors[c + 1] = baseColors[c + 1];
+      colors[c + 2] = baseColors[c + 2];
+      alphas[i] = 1;
+    }
+  }
+}
+
+export type FieldWorkerRequest =
+  | { type: "lattice"; version: number; lattice: FieldLattice }
+  | {
+    type: "frame";
+    version: number;
+    frame: FieldFrame;
+    matrices: Float32Array;
+    colors: Float32Array;
+    alphas: Float32Array;
+  };
+
+export interface FieldWorkerResult {
+  version: number;
+  matrices: Float32Array;
+  colors: Float32Array;
+  alphas: Float32Array;
+}
+
+/**
+ * Runs evaluateField in a worker. Buffers are transferred there and back, so each one is
+ * owned by exactly one side at a time; only one frame is in flight and the render thread
+ * consumes whichever result completed last.
+ */
+export interface FieldWorkerClient {
+  setLattice(lattice: FieldLattice): void;
+  /** Queues a frame unless one is already being computed. */
+  request(frame: FieldFrame): void;
+  /** Hands over the newest completed result (once); return its buffers with `release`. */
+  take(): FieldWorkerResult | null;
+  release(result: FieldWorkerResult): void;
+  dispose(): void;
+}
+
+export function createFieldWorker(): FieldWorkerClient {
+  const worker = new Worker(new URL("./field.worker.ts", import.meta.url), { type: "module" });
+  const post = (message: FieldWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  let version = 0;
+  let count = 0;
+  let pool: { matrices: Float32Array; colors: Float32Array; alphas: Float32Array }[] = [];
+  let pending = false;
+  let latest: FieldWorkerResult | null = null;
+
+  worker.onmessage = (e: MessageEvent<FieldWorkerResult>) => {
+    pending = false;
+    if (e.data.version !== version) return;
+    if (latest) pool.push({ matrices: latest.matrices, colors: latest.colors, alphas: latest.alphas });
+    latest = e.data;
+  };
+
+  return {
+    setLattice(lattice) {
+      version++;
+      count = lattice.count;
+      pool = [];
+      latest = null;
+      post({ type: "lattice", version, lattice });
+    },
+    request(frame) {
+      if (pending) return;
+      const buffers = pool.pop() ?? {
+        matrices: new Float32Array(count * 16),
+        colors: new Float32Array(count * 3),
+        alphas: new Float32Array(count),
+      };
+      pending = true;
+      post(
+        { type: "frame", version, frame, ...buffers },
+        [buffers.matrices.buffer, buffers.colors.buffer, buffers.alphas.buffer]
+      );
+    },
+    take() {
+      const result = latest;
+      latest = null;
+      return result;
+    },
+    release(result) {
+      if (result.version === version) pool.push({ matrices: result.matrices, colors: result.colors, alphas: result.alphas });
+    },
+    dispose() {
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { evaluateField, FieldLattice, FieldWorkerRequest, FieldWorkerResult } from "./field";
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<FieldWorkerRequest>) => void) | null;
+  postMessage(message: FieldWorkerResult, transfer: Transferable[]): void;
+};
+
+let lattice: FieldLattice | null = null;
+let latticeVersion = -1;
+
+scope.onmessage = (e) => {
+  const message = e.data;
+  if (message.type === "lattice") {
+    lattice = message.lattice;
+    latticeVersion = message.version;
+    return;
+  }
+  const { version, frame, matrices, colors, alphas } = message;
+  if (lattice && version === latticeVersion) evaluateField(lattice, frame, matrices, colors, alphas);
+  scope.postMessage({ version, matrices, colors, alphas }, [matrices.buffer, colors.buffer, alphas.buffer]);
+};
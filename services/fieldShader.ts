@@ -0,0 +1,329 @@
+import * as THREE from "three";
+import { Axis, CombineMode, DistanceMetric, GradientDriver, Orientation } from "../types";
+
+const ORIENTATION_INDEX: Record<Orientation, number> = { fixed: 0, focal: 1, gradient: 2 };
+export const orientationIndex = (orientation: Orientation) => ORIENTATION_INDEX[orientation];
+
+const COMBINE_INDEX: Record<CombineMode, number> = { min: 0, smooth: 1, additive: 2, multiply: 3, subtract: 4 };
+export const combineIndex = (mode: CombineMode) => COMBINE_INDEX[mode];
+
+const METRIC_INDEX: Record<DistanceMetric, number> = { euclidean: 0, manhattan: 1, chebyshev: 2, cylindrical: 3, planar: 4 };
+export const metricIndex = (metric: DistanceMetric) => METRIC_INDEX[metric];
+
+const AXIS_INDEX: Record<Axis, number> = { x: 0, y: 1, z: 2 };
+export const axisIndex = (axis: Axis) => AXIS_INDEX[axis];
+
+const DRIVER_INDEX: Record<GradientDriver, number> = { distance: 0, scale: 1, height: 2, index: 3 };
+export const driverIndex = (driver: GradientDriver) => DRIVER_INDEX[driver];
+
+/**
+ * Uniforms for the GPU field path. Values mirror what the CPU loop reads each frame;
+ * the LUT and gradient textures have one row per center.
+ */
+export interface FieldUniforms {
+  uFocal: { value: THREE.Vector3[] };
+  uWeight: { value: number[] };
+  uRadius: { value: number[] };
+  uNegative: { value: number[] };
+  uCombine: { value: number };
+  uBlend: { value: number };
+  uMaxDist: { value: number };
+  uMetric: { value: number };
+  uAxis: { value: number };
+  uAxisScale: { value: THREE.Vector3 };
+  uMinScale: { value: number };
+  uMaxScale: { value: number };
+  uLut: { value: THREE.DataTexture };
+  uGradient: { value: THREE.DataTexture };
+  uDriver: { value: number };
+  uOrientation: { value: number };
+  uStretch: { value: number };
+  [uniform: string]: THREE.IUniform;
+}
+
+export function createLutTexture(size: number, rows: number) {
+  const texture = new THREE.DataTexture(new Float32Array(size * rows), size, rows, THREE.RedFormat, THREE.FloatType);
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+export function createGradientTexture(size: number, rows: number) {
+  const texture = new THREE.DataTexture(new Float32Array(size * rows * 4), size, rows, THREE.RGBAFormat, THREE.FloatType);
+  texture.minFilter = THREE.NearestFilter;
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+export function createFieldUniforms(centers: number, lutSize: number, gradientSize: number): FieldUniforms {
+  return {
+    uFocal: { value: Array.from({ length: centers }, () => new THREE.Vector3()) },
+    uWeight: { value: Array.from({ length: centers }, () => 0) },
+    uRadius: { value: Array.from({ length: centers }, () => 1) },
+    uNegative: { value: Array.from({ length: centers }, () => 0) },
+    uCombine: { value: 0 },
+    uBlend: { value: 1 },
+    uMaxDist: { value: 1 },
+    uMetric: { value: 0 },
+    uAxis: { value: 1 },
+    uAxisScale: { value: new THREE.Vector3(1, 1, 1) },
+    uMinScale: { value: 0 },
+    uMaxScale: { value: 1 },
+    uLut: { value: createLutTexture(lutSize, centers) },
+    uGradient: { value: createGradientTexture(gradientSize, centers) },
+    uDriver: { value: 0 },
+    uOrientation: { value: 0 },
+    uStretch: { value: 0 },
+  };
+}
+
+// Per-instance field evaluation: scale, orientation and tint. Runs with the normals
+// where the material transforms them, otherwise (depth passes) just before the position
+const FIELD_EVALUATION = `  vec3 fieldCenter = (instanceMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+  int fieldNearest;
+  float fieldDist = fieldDistance(fieldCenter, fieldNearest);
+  float fieldT = min(1.0, fieldDist);
+  float lutIndex = floor(fieldT * float(FIELD_LUT_SIZE - 1));
+  float lutNext = min(float(FIELD_LUT_SIZE - 1), lutIndex + 1.0);
+
+  // Mix the centers' looks; the nearest one stands in when no center reaches this far
+  bool fieldHard = uCombine == 0 || uCombine == 4;
+  float fieldShares[FIELD_CENTERS];
+  float fieldTotal = 0.0;
+  float fieldScale = 0.0;
+  float fieldSlope = 0.0;
+  for (int pass = 0; pass < 2; pass++) {
+    if (fieldTotal > 0.0) break;
+    for (int c = 0; c < FIELD_CENTERS; c++) {
+      float share = 0.0;
+      if (fieldHard || pass == 1) {
+        share = c == max(0, fieldNearest) ? 1.0 : 0.0;
+      } else {
+        float q = 1.0 - min(1.0, fieldReach[c]);
+        share = q * q;
+      }
+      fieldShares[c] = share;
+      if (share == 0.0) continue;
+      float value = fieldLut(c, lutIndex);
+      fieldTotal += share;
+      fieldScale += (value > 0.0 ? value : uMinScale) * share;
+      fieldSlope += (fieldLut(c, lutNext) - value) * share;
+    }
+  }
+  fieldScale /= fieldTotal;
+
+  float gradientU = fieldT;
+  if (uDriver == 1) gradientU = clamp((fieldScale - uMinScale) / max(1e-6, uMaxScale - uMinScale), 0.0, 1.0);
+  else if (uDriver == 2) gradientU = instanceGradient.x;
+  else if (uDriver == 3) gradientU = instanceGradient.y;
+  float gradientIndex = floor(gradientU * float(FIELD_GRADIENT_SIZE - 1));
+  vec4 fieldTint = vec4(0.0);
+  for (int c = 0; c < FIELD_CENTERS; c++) {
+    if (fieldShares[c] == 0.0) continue;
+    vec2 uv = vec2((gradientIndex + 0.5) / float(FIELD_GRADIENT_SIZE), (float(c) + 0.5) / float(FIELD_CENTERS));
+    fieldTint += texture2D(uGradient, uv) * fieldShares[c];
+  }
+  fieldTint /= fieldTotal;
+  vFieldAlpha = mix(1.0, fieldTint.a, instanceTinted);
+
+  vec3 fieldAxis = vec3(0.0, 1.0, 0.0);
+  if (uOrientation == 1 && fieldNearest >= 0) {
+    fieldAxis = uFocal[fieldNearest] - fieldCenter;
+  } else if (uOrientation == 2 && fieldDist < 1e19) {
+    float h = uMaxDist * 1e-3;
+    int unused;
+    vec3 dx = vec3(h, 0.0, 0.0);
+    vec3 dy = vec3(0.0, h, 0.0);
+    vec3 dz = vec3(0.0, 0.0, h);
+    fieldAxis = vec3(
+      fieldDistance(fieldCenter + dx, unused) - fieldDistance(fieldCenter - dx, unused),
+      fieldDistance(fieldCenter + dy, unused) - fieldDistance(fieldCenter - dy, unused),
+      fieldDistance(fieldCenter + dz, unused) - fieldDistance(fieldCenter - dz, unused)
+    ) * (fieldSlope < 0.0 ? -1.0 : 1.0);
+  }
+  mat3 fieldRotation = length(fieldAxis) > 1e-9 ? fieldAlign(normalize(fieldAxis)) : mat3(1.0);
+  vec3 fieldScale3 = max(vec3(fieldScale, fieldScale * (1.0 + uStretch * fieldScale), fieldScale), vec3(1e-6));`;
+
+/**
+ * Patches a built-in material so each instance evaluates the focal field in the vertex
+ * shader: combined focal distance → LUT scale mixed across centers, orientation and stretch,
+ * and the gradient color and alpha for instances whose `instanceTinted` attribute is 1;
+ * `instanceGradient` carries the height and grid-index positions. Mirrors evaluateField.
+ * Depth and distance materials get the same shape without the tint. While `hidden` is 1 the
+ * material draws nothing, for passes it must sit out.
+ */
+export function applyFieldShader(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  uniforms: FieldUniforms,
+  centers: number,
+  lutSize: number,
+  gradientSize: number,
+  hidden?: THREE.IUniform<number>
+) {
+  Object.assign(shader.uniforms, uniforms);
+  const tinted = shader.vertexShader.includes("#include <color_pars_vertex>");
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      "#include <common>",
+      `#include <common>
+#define FIELD_CENTERS ${centers}
+#define FIELD_LUT_SIZE ${lutSize}
+#define FIELD_GRADIENT_SIZE ${gradientSize}
+uniform vec3 uFocal[FIELD_CENTERS];
+uniform float uWeight[FIELD_CENTERS];
+uniform float uRadius[FIELD_CENTERS];
+uniform float uNegative[FIELD_CENTERS];
+uniform int uCombine;
+uniform float uBlend;
+uniform float uMaxDist;
+uniform int uMetric;
+uniform int uAxis;
+uniform vec3 uAxisScale;
+uniform float uMinScale;
+uniform float uMaxScale;
+uniform sampler2D uLut;
+uniform sampler2D uGradient;
+uniform int uDriver;
+uniform int uOrientation;
+uniform float uStretch;
+attribute float instanceTinted;
+attribute vec2 instanceGradient;
+varying float vFieldAlpha;
+float fieldReach[FIELD_CENTERS];
+
+float fieldSmoothMin(float a, float b, float k) {
+  if (a >= 1e19) return b;
+  float h = max(k - abs(a - b), 0.0) / k;
+  return min(a, b) - h * h * k * 0.25;
+}
+
+float fieldMetric(vec3 d) {
+  d = abs(d / uAxisScale);
+  // The two components across the metric axis, then the one along it
+  vec3 axial = uAxis == 0 ? d.yzx : uAxis == 1 ? d.xzy : d.xyz;
+  if (uMetric == 1) return d.x + d.y + d.z;
+  if (uMetric == 2) return max(d.x, max(d.y, d.z));
+  if (uMetric == 3) return length(axial.xy);
+  if (uMetric == 4) return axial.z;
+  return length(d);
+}
+
+float fieldDistance(vec3 p, out int nearest) {
+  float dist = 1e20;
+  float carve = 1e20;
+  float sum = 0.0;
+  float product = 1.0;
+  float nearestDist = 1e20;
+  nearest = -1;
+  for (int c = 0; c < FIELD_CENTERS; c++) {
+    fieldReach[c] = 1e20;
+    if (uWeight[c] < 0.001) continue;
+    float d = fieldMetric(p - uFocal[c]) / (uWeight[c] * uRadius[c] * uMaxDist);
+    fieldReach[c] = d;
+    if (uCombine == 4 && uNegative[c] > 0.5) {
+      carve = min(carve, d);
+      continue;
+    }
+    if (d < nearestDist) {
+      nearestDist = d;
+      nearest = c;
+    }
+    if (uCombine == 1) {
+      dist = fieldSmoothMin(dist, d, uBlend);
+    } else if (uCombine == 2) {
+      float r = min(1.0, d);
+      sum += (1.0 - r * r) * (1.0 - r * r);
+      dist = 0.0;
+    } else if (uCombine == 3) {
+      product *= min(1.0, d);
+      dist = 0.0;
+    } else {
+      dist = min(dist, d);
+    }
+  }
+  if (dist >= 1e19) return dist;
+  if (uCombine == 2) return sqrt(1.0 - sqrt(min(1.0, sum)));
+  if (uCombine == 3) return product;
+  if (uCombine == 4 && carve < 1e19) return max(dist, 1.0 - carve);
+  return dist;
+}
+
+float fieldLut(int center, float index) {
+  return texture2D(uLut, vec2((index + 0.5) / float(FIELD_LUT_SIZE), (float(center) + 0.5) / float(FIELD_CENTERS))).r;
+}
+
+// Rotation taking +Y onto the unit vector d
+mat3 fieldAlign(vec3 d) {
+  if (d.y < -0.9999) return mat3(1.0, 0.0, 0.0, 0.0, -1.0, 0.0, 0.0, 0.0, -1.0);
+  float k = 1.0 / (1.0 + d.y);
+  return mat3(
+    1.0 - d.x * d.x * k, -d.x, -d.x * d.z * k,
+    d.x, d.y, d.z,
+    -d.x * d.z * k, -d.z, 1.0 - d.z * d.z * k
+  );
+}`
+    )
+    .replace(
+      "#include <beginnormal_vertex>",
+      `#include <beginnormal_vertex>
+#ifdef USE_INSTANCING
+#define FIELD_EVALUATED
+${FIELD_EVALUATION}
+  objectNormal = fieldRotation * (objectNormal / fieldScale3);
+#endif`
+    )
+    .replace(
+      "#include <begin_vertex>",
+      `#if defined(USE_INSTANCING) && !defined(FIELD_EVALUATED)
+${FIELD_EVALUATION}
+#endif
+#include <begin_vertex>
+#ifdef USE_INSTANCING
+  transformed = fieldRotation * (transformed * fieldScale3);${tinted ? `
+#ifdef USE_INSTANCING_COLOR
+  vColor.xyz *= mix(vec3(1.0), fieldTint.rgb, instanceTinted);
+#endif` : ""}
+#endif`
+    );
+  if (hidden) {
+    shader.uniforms.uFieldHidden = hidden;
+    shader.vertexShader = shader.vertexShader
+      .replace("#include <common>", "#include <common>\nuniform float uFieldHidden;")
+      .replace(
+        "void main() {",
+        "void main() {\n  if (uFieldHidden > 0.5) {\n    gl_Position = vec4(0.0, 0.0, 2.0, 1.0);\n    return;\n  }"
+      );
+  }
+  patchAlphaFragment(shader);
+}
+
+// Multiplies the fragment alpha by the per-instance gradient alpha
+function patchAlphaFragment(shader: THREE.WebGLProgramParametersWithUniforms) {
+  shader.fragmentShader = shader.fragmentShader
+    .replace("#include <common>", "#include <common>\nvarying float vFieldAlpha;")
+    .replace("#include <color_fragment>", "#include <color_fragment>\n  diffuseColor.a *= vFieldAlpha;");
+}
+
+/**
+ * CPU-path counterpart of the gradient alpha: reads the per-instance `instanceAlpha`
+ * attribute that evaluateField fills in.
+ */
+export function applyInstanceAlpha(shader: THREE.WebGLProgramParametersWithUniforms) {
+  shader.vertexShader = shader.vertexShader
+    .replace("#include <common>", "#include <common>\nattribute float instanceAlpha;\nvarying float vFieldAlpha;")
+    .replace("#include <begin_vertex>", "#include <begin_vertex>\n  vFieldAlpha = instanceAlpha;");
+  patchAlphaFragment(shader);
+}
+
+/**
+ * Shades a depth material the way drei's ContactShadows shades its override material (black,
+ * fading with depth), so a field-patched copy can draw the GPU instances into its pass.
+ */
+export function applyContactShadowDepth(shader: THREE.WebGLProgramParametersWithUniforms) {
+  shader.fragmentShader = shader.fragmentShader.replace(
+    "vec4( vec3( 1.0 - fragCoordZ ), opacity );",
+    "vec4( vec3( 0.0 ), 1.0 - fragCoordZ );"
+  );
+}
@@ -0,0 +1,146 @@
+import { createZipWriter } from "./zip";
+
+export type ExportFormat = "png" | "webm";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number;
+}
+
+export const EXPORT_RESOLUTIONS: { label: string; width: number; height: number }[] = [
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "1440p", width: 2560, height: 1440 },
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "Square", width: 1080, height: 1080 },
+  { label: "Portrait", width: 1080, height: 1920 },
+];
+
+export const EXPORT_FPS = [24, 30, 60];
+
+/**
+ * Largest PNG sequence (frames × width × height) that may be rendered. Frames compress to
+ * roughly a byte per pixel, so this keeps the archive near 2 GB, well inside what a browser
+ * can hand to a download and the 4 GB a plain zip can address.
+ */
+export const MAX_PNG_EXPORT_PIXELS = 2_000_000_000;
+
+/** Why these options cannot be rendered, or null when they can. */
+export function exportLimitMessage(options: ExportOptions) {
+  if (options.format !== "png") return null;
+  const pixels = Math.max(1, Math.round(options.duration * options.fps)) * options.width * options.height;
+  if (pixels <= MAX_PNG_EXPORT_PIXELS) return null;
+  const seconds = Math.floor(MAX_PNG_EXPORT_PIXELS / (options.width * options.height * options.fps));
+  return `A PNG sequence this long would be about ${(pixels / 1e9).toFixed(1)} GB. Keep it under ${seconds}s at this size and frame rate, lower the resolution, or use WebM.`;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "png",
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  duration: 5,
+};
+
+/**
+ * Receives rendered frames one at a time and produces the final file.
+ */
+export interface FrameSink {
+  addFrame(source: HTMLCanvasElement): Promise<void>;
+  finish(): Promise<Blob>;
+  abort(): void;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode frame."))), type);
+  });
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Frames are copied onto a 2D canvas straight after rendering, so encoding never
+// depends on the WebGL drawing buffer surviving past the current task.
+function createFrameCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D canvas is not available.");
+  return { canvas, ctx };
+}
+
+function createPngSink(width: number, height: number): FrameSink {
+  const { canvas, ctx } = createFrameCanvas(width, height);
+  // Each frame goes into the archive as soon as it is encoded
+  const zip = createZipWriter();
+  let frame = 0;
+
+  return {
+    async addFrame(source) {
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(source, 0, 0, width, height);
+      const name = `frame-${String(frame++).padStart(5, "0")}.png`;
+      await zip.add(name, await canvasToBlob(canvas, "image/png"));
+    },
+    async finish() {
+      return zip.finish();
+    },
+    // Nothing outlives the sink, so dropping it releases the frames
+    abort() {},
+  };
+}
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+function createWebmSink(width: number, height: number, fps: number): FrameSink {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("WebM export needs MediaRecorder, which this browser does not support.");
+  }
+  const mimeType = WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser cannot record WebM video.");
+
+  const { canvas, ctx } = createFrameCanvas(width, height);
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: width * height * fps * 0.2 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start();
+
+  return {
+    async addFrame(source) {
+      ctx.drawImage(source, 0, 0, width, height);
+      track.requestFrame();
+      // MediaRecorder timestamps frames by wall clock, so hold each one for its duration
+      await wait(1000 / fps);
+    },
+    finish() {
+      return new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((t) => t.stop());
+          resolve(new Blob(chunks, { type: "video/webm" }));
+        };
+        recorder.stop();
+      });
+    },
+    abort() {
+      recorder.onstop = () => stream.getTracks().forEach((t) => t.stop());
+      if (recorder.state !== "inactive") recorder.stop();
+    },
+  };
+}
+
+export function createFrameSink(options: ExportOptions): FrameSink {
+  const { format, width, height, fps } = options;
+  const limit = exportLimitMessage(options);
+  if (limit) throw new Error(limit);
+  return format === "png" ? createPngSink(width, height) : createWebmSink(width, height, fps);
+}
+
+export const exportFileName = ({ format, width, height, fps }: ExportOptions) =>
+  `particle-bounce-house-${width}x${height}-${fps}fps.${format === "png" ? "zip" : "webm"}`;
@@ -0,0 +1,102 @@
+import { GradientDriver, GradientStop } from "../types";
+
+export const MAX_GRADIENT_STOPS = 8;
+
+export const GRADIENT_DRIVERS: { driver: GradientDriver; label: string }[] = [
+  { driver: "distance", label: "Distance" },
+  { driver: "scale", label: "Scale" },
+  { driver: "height", label: "Height" },
+  { driver: "index", label: "Grid Index" },
+];
+
+export const hsvToRgb = (h: number, s: number, v: number) => {
+  const i = Math.floor(h * 6);
+  const f = h * 6 - i;
+  const p = v * (1 - s);
+  const q = v * (1 - f * s);
+  const t = v * (1 - (1 - f) * s);
+  switch (i % 6) {
+    case 0: return { r: v, g: t, b: p };
+    case 1: return { r: q, g: v, b: p };
+    case 2: return { r: p, g: v, b: t };
+    case 3: return { r: p, g: q, b: v };
+    case 4: return { r: t, g: p, b: v };
+    case 5: return { r: v, g: p, b: q };
+    default: return { r: v, g: t, b: p };
+  }
+};
+
+const hexToStop = (hex: string, position: number): GradientStop => {
+  const n = parseInt(hex.slice(1), 16);
+  const r = ((n >> 16) & 255) / 255;
+  const g = ((n >> 8) & 255) / 255;
+  const b = (n & 255) / 255;
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) hue = ((g - b) / delta + 6) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+  }
+  return { position, hue: hue * 60, saturation: max > 0 ? delta / max : 0, value: max, alpha: 1 };
+};
+
+const fromHexes = (hexes: string[]) => hexes.map((hex, i) => hexToStop(hex, i / (hexes.length - 1)));
+
+/** The original look: a fully saturated center hue fading to the distance hue. */
+export const twoHueStops = (hue: number, hue2: number): GradientStop[] => [
+  { position: 0, hue, saturation: 1, value: 1, alpha: 1 },
+  { position: 1, hue: hue2, saturation: 1, value: 1, alpha: 1 },
+];
+
+/**
+ * Built-in palettes. `null` stops mean the two-hue gradient, which follows the hue settings
+ * (and so the timeline and audio hue shift) instead of fixed colors.
+ */
+export const GRADIENT_PALETTES: { label: string; stops: GradientStop[] | null }[] = [
+  { label: "Hues", stops: null },
+  { label: "Viridis", stops: fromHexes(["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"]) },
+  { label: "Magma", stops: fromHexes(["#000004", "#3b0f70", "#8c2981", "#de4968", "#fe9f6d", "#fcfdbf"]) },
+  { label: "Inferno", stops: fromHexes(["#000004", "#420a68", "#932667", "#dd513a", "#fca50a", "#fcffa4"]) },
+  { label: "Mono", stops: fromHexes(["#ffffff", "#262626"]) },
+  { label: "Fade", stops: [{ ...hexToStop("#ffffff", 0) }, { ...hexToStop("#ffffff", 1), alpha: 0 }] },
+];
+
+export const sortStops = (stops: GradientStop[]) => [...stops].sort((a, b) => a.position - b.position);
+
+/**
+ * Samples the stops into `size` RGBA entries, written to `out` at `offset`. Colors are
+ * interpolated linearly between neighbouring stops and held flat beyond the end stops.
+ */
+export function sampleGradient(stops: GradientStop[], size: number, out: Float32Array, offset = 0) {
+  const sorted = sortStops(stops);
+  const colors = sorted.map(({ hue, saturation, value, alpha }) => {
+    const { r, g, b } = hsvToRgb((((hue % 360) + 360) % 360) / 360, saturation, value);
+    return [r, g, b, alpha];
+  });
+  let k = 0;
+  for (let i = 0; i < size; i++) {
+    const u = size > 1 ? i / (size - 1) : 0;
+    while (k < sorted.length - 2 && u > sorted[k + 1].position) k++;
+    const a = sorted[k];
+    const b = sorted[Math.min(sorted.length - 1, k + 1)];
+    const span = b.position - a.position;
+    const f = span > 0 ? Math.min(1, Math.max(0, (u - a.position) / span)) : u < a.position ? 0 : 1;
+    for (let ch = 0; ch < 4; ch++) {
+      out[offset + i * 4 + ch] = colors[k][ch] + (colors[Math.min(sorted.length - 1, k + 1)][ch] - colors[k][ch]) * f;
+    }
+  }
+  return out;
+}
+
+export function stopCss({ hue, saturation, value }: GradientStop, alpha = 1) {
+  const { r, g, b } = hsvToRgb((((hue % 360) + 360) % 360) / 360, saturation, value);
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${alpha})`;
+}
+
+/** CSS preview of the stops, for the editor bar. */
+export function gradientCss(stops: GradientStop[]) {
+  const parts = sortStops(stops).map((stop) => `${stopCss(stop, stop.alpha)} ${(stop.position * 100).toFixed(1)}%`);
+  return `linear-gradient(90deg, ${parts.join(", ")})`;
+}
@@ -0,0 +1,84 @@
+import { SceneSettings, SphereData } from "../types";
+
+export const MAX_HISTORY = 100;
+
+/** Everything undo restores: the sculpt settings and the spheres they act on. */
+export interface EditState {
+  settings: SceneSettings;
+  baseSpheres: SphereData[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  state: EditState;
+}
+
+/**
+ * Linear edit history. `index` points at the entry currently shown; entries after it
+ * are redo steps and are dropped by the next new edit.
+ */
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+const SETTING_LABELS: { label: string; keys: (keyof SceneSettings)[] }[] = [
+  { label: "Curve", keys: ["p1x", "p1y", "p2x", "p2y", "curveStartY", "curveEndY", "curvePoints"] },
+  { label: "Scale Range", keys: ["minScale", "maxScale"] },
+  { label: "Hue", keys: ["hue", "hue2"] },
+  { label: "Gradient", keys: ["gradient", "gradientDriver"] },
+  { label: "Speed", keys: ["speed"] },
+  { label: "Centers", keys: ["engineCenters", "negativeCenters", "centerStyles"] },
+  { label: "Randomness", keys: ["engineRandomness"] },
+  { label: "Seed", keys: ["seed"] },
+  { label: "Bounds", keys: ["boundScale"] },
+  { label: "Motion", keys: ["motions"] },
+  { label: "Field", keys: ["combineMode", "blendRadius", "distanceMetric", "metricAxis", "axisScaleX", "axisScaleY", "axisScaleZ"] },
+  { label: "Lattice", keys: ["matrix"] },
+  { label: "Physics", keys: ["physics"] },
+  { label: "Look", keys: ["blendMode", "primitive", "orientation", "stretch", "opacity", "lineOpacity", "sphereSegments", "ambientIntensity"] },
+];
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Names what changed between two states, e.g. "Curve" or "Hue, Speed".
+ */
+export function describeEdit(prev: EditState, next: EditState) {
+  const labels = SETTING_LABELS
+    .filter(({ keys }) => keys.some((key) => !same(prev.settings[key], next.settings[key])))
+    .map(({ label }) => label);
+  // A rebuilt lattice follows from its own dimensions, so only other sphere changes are named
+  if (prev.baseSpheres !== next.baseSpheres && !labels.includes("Lattice")) labels.push("Spheres");
+  if (labels.length === 0) return "Edit";
+  return labels.length > 2 ? `${labels.slice(0, 2).join(", ")} +${labels.length - 2}` : labels.join(", ");
+}
+
+export const isSameEdit = (a: EditState, b: EditState) =>
+  a.baseSpheres === b.baseSpheres && same(a.settings, b.settings);
+
+export const createHistory = (state: EditState): EditHistory => ({
+  entries: [{ id: 0, label: "Start", state }],
+  index: 0,
+});
+
+/**
+ * Records a new step after the current one, discarding any redo steps and the oldest
+ * entries beyond MAX_HISTORY. Unchanged states are not recorded.
+ */
+export function pushHistory(history: EditHistory, state: EditState): EditHistory {
+  const current = history.entries[history.index];
+  if (isSameEdit(current.state, state)) return history;
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { id: current.id + 1, label: describeEdit(current.state, state), state },
+  ].slice(-MAX_HISTORY);
+  return { entries, index: entries.length - 1 };
+}
+
+/** Moves to entry `index` (clamped); the entries stay so redo can come back. */
+export const jumpHistory = (history: EditHistory, index: number): EditHistory => ({
+  ...history,
+  index: Math.min(history.entries.length - 1, Math.max(0, index)),
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { Vec3 } from "../types";
+import { findNeighbors, generateLattice, LINK_FACTOR, MAX_LINKS_PER_POINT } from "./lattice";
+
+// Links per point, from the flat pair list
+const linkCounts = (pairs: Uint32Array, count: number) => {
+  const links = new Array<number>(count).fill(0);
+  pairs.forEach((index) => links[index]++);
+  return links;
+};
+
+describe("findNeighbors", () => {
+  it("joins each cubic grid point to its axis neighbours once", () => {
+    const spacing = 1.2;
+    const positions = generateLattice({ rows: 3, cols: 3, layers: 3, spacing, layout: "cubic" }, 0).map((s) => s.position);
+    const pairs = findNeighbors(positions, spacing * LINK_FACTOR);
+    // 3 axes × 3 × 3 lines of 2 segments each
+    expect(pairs.length / 2).toBe(54);
+    const seen = new Set<string>();
+    for (let i = 0; i < pairs.length; i += 2) seen.add(`${pairs[i]}-${pairs[i + 1]}`);
+    expect(seen.size).toBe(54);
+  });
+
+  it("caps the lines of a point in a dense cluster", () => {
+    const positions: Vec3[] = Array.from({ length: 40 }, (_, i) => [i * 0.01, 0, 0]);
+    const pairs = findNeighbors(positions, 1);
+    linkCounts(pairs, positions.length).forEach((links) => expect(links).toBeLessThanOrEqual(MAX_LINKS_PER_POINT));
+    expect(pairs.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,289 @@
+import { LatticeLayout, MatrixConfig, SphereData, Vec3 } from "../types";
+import { createRandom, deriveSeed } from "./random";
+
+export const LATTICE_LAYOUTS: { layout: LatticeLayout; label: string }[] = [
+  { layout: "cubic", label: "Cubic" },
+  { layout: "hcp", label: "Hex Close" },
+  { layout: "bcc", label: "Body Cubic" },
+  { layout: "shells", label: "Shells" },
+  { layout: "fibonacci", label: "Fibonacci" },
+  { layout: "cylinder", label: "Cylinder" },
+  { layout: "torus", label: "Torus" },
+  { layout: "poisson", label: "Poisson" },
+];
+
+/** Neighbours closer than this many spacings are joined by lattice lines. */
+export const LINK_FACTOR = 1.2;
+
+/** Most lines one point joins; close-packed layouts have 12 nearest neighbours. */
+export const MAX_LINKS_PER_POINT = 12;
+
+/** Most lattice lines drawn in total, so dense or imported point sets stay cheap. */
+export const MAX_NEIGHBOR_LINES = 200_000;
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Evenly spread points on a sphere (Fibonacci spiral), roughly `spacing` apart
+const fibonacciSphere = (radius: number, spacing: number, out: Vec3[]) => {
+  const count = Math.max(1, Math.round((4 * Math.PI * radius * radius) / (spacing * spacing)));
+  if (count === 1) {
+    out.push([0, 0, 0]);
+    return;
+  }
+  for (let i = 0; i < count; i++) {
+    const y = 1 - (2 * (i + 0.5)) / count;
+    const r = Math.sqrt(1 - y * y);
+    const theta = GOLDEN_ANGLE * i;
+    out.push([Math.cos(theta) * r * radius, y * radius, Math.sin(theta) * r * radius]);
+  }
+};
+
+// Solid disc in the plane of the unit vectors u and v: a center point and rings `spacing` apart
+const disc = (radius: number, spacing: number, emit: (u: number, v: number) => void) => {
+  emit(0, 0);
+  for (let k = 1; k * spacing <= radius + 1e-6; k++) {
+    const r = k * spacing;
+    const count = Math.max(6, Math.round((2 * Math.PI * r) / spacing));
+    for (let i = 0; i < count; i++) {
+      const a = (i / count) * Math.PI * 2;
+      emit(Math.cos(a) * r, Math.sin(a) * r);
+    }
+  }
+};
+
+// Moves the points' bounding box center onto the origin
+const centered = (points: Vec3[]) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  points.forEach((p) => p.forEach((v, i) => {
+    min[i] = Math.min(min[i], v);
+    max[i] = Math.max(max[i], v);
+  }));
+  const mid = min.map((v, i) => (v + max[i]) / 2);
+  return points.map((p) => p.map((v, i) => v - mid[i]) as Vec3);
+};
+
+// Bridson's Poisson-disk sampling: no two points closer than `spacing`
+const poissonFill = (half: Vec3, spacing: number, limit: number, seed: number) => {
+  const random = createRandom(deriveSeed(seed, "lattice"));
+  const cell = spacing / Math.sqrt(3);
+  const dims = half.map((h) => Math.max(1, Math.ceil((2 * h) / cell)));
+  const grid = new Int32Array(dims[0] * dims[1] * dims[2]).fill(-1);
+  const points: Vec3[] = [];
+  const active: number[] = [];
+  const cellOf = (v: number, axis: number) => Math.min(dims[axis] - 1, Math.floor((v + half[axis]) / cell));
+
+  const fits = (p: Vec3) => {
+    if (Math.abs(p[0]) > half[0] || Math.abs(p[1]) > half[1] || Math.abs(p[2]) > half[2]) return false;
+    const cx = cellOf(p[0], 0);
+    const cy = cellOf(p[1], 1);
+    const cz = cellOf(p[2], 2);
+    for (let x = Math.max(0, cx - 2); x <= Math.min(dims[0] - 1, cx + 2); x++) {
+      for (let y = Math.max(0, cy - 2); y <= Math.min(dims[1] - 1, cy + 2); y++) {
+        for (let z = Math.max(0, cz - 2); z <= Math.min(dims[2] - 1, cz + 2); z++) {
+          const other = grid[(x * dims[1] + y) * dims[2] + z];
+          if (other < 0) continue;
+          const q = points[other];
+          const dx = q[0] - p[0];
+          const dy = q[1] - p[1];
+          const dz = q[2] - p[2];
+          if (dx * dx + dy * dy + dz * dz < spacing * spacing) return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  const add = (p: Vec3) => {
+    grid[(cellOf(p[0], 0) * dims[1] + cellOf(p[1], 1)) * dims[2] + cellOf(p[2], 2)] = points.length;
+    active.push(points.length);
+    points.push(p);
+  };
+
+  add(half.map((h) => (random() * 2 - 1) * h) as Vec3);
+  while (active.length > 0 && points.length < limit) {
+    const slot = Math.floor(random() * active.length);
+    const base = points[active[slot]];
+    let placed = false;
+    for (let attempt = 0; attempt < 20 && !placed; attempt++) {
+      // Uniform direction, distance between one and two spacings
+      const y = random() * 2 - 1;
+      const theta = random() * Math.PI * 2;
+      const r = Math.sqrt(1 - y * y);
+      const d = spacing * (1 + random());
+      const p: Vec3 = [base[0] + Math.cos(theta) * r * d, base[1] + y * d, base[2] + Math.sin(theta) * r * d];
+      // A box one point thin (a single row, column or layer) is filled in its plane
+      half.forEach((h, i) => { if (h === 0) p[i] = 0; });
+      if (fits(p)) {
+        add(p);
+        placed = true;
+      }
+    }
+    if (!placed) {
+      // Retire the point by moving the last active one into its slot
+      active[slot] = active[active.length - 1];
+      active.pop();
+    }
+  }
+  return points;
+};
+
+/**
+ * Builds the sphere lattice centered on the origin. Columns, rows and layers size the box
+ * along X, Y and Z in spacings; each layout fills it with points roughly `spacing` apart.
+ * The cubic grid keeps its `sphere-x-y-z` ids; the Poisson fill draws from `seed`.
+ */
+export function generateLattice({ rows, cols, layers, spacing, layout }: MatrixConfig, seed: number): SphereData[] {
+  const half: Vec3 = [(cols - 1) * spacing / 2, (rows - 1) * spacing / 2, (layers - 1) * spacing / 2];
+  const radius = Math.max(spacing / 2, Math.min(...half));
+  let points: Vec3[] = [];
+
+  switch (layout) {
+    case "hcp": {
+      // Close-packed planes (triangular in XZ) stacked ABAB along Y
+      const rowStep = spacing * Math.sqrt(3) / 2;
+      const layerStep = spacing * Math.sqrt(2 / 3);
+      const nz = Math.floor((2 * half[2]) / rowStep + 1e-6) + 1;
+      const ny = Math.floor((2 * half[1]) / layerStep + 1e-6) + 1;
+      for (let y = 0; y < ny; y++) {
+        const shift = y % 2 === 1;
+        for (let z = 0; z < nz; z++) {
+          for (let x = 0; x < cols; x++) {
+            points.push([
+              (x + (z % 2) / 2 + (shift ? 0.5 : 0)) * spacing,
+              y * layerStep,
+              z * rowStep + (shift ? rowStep / 3 : 0),
+            ]);
+          }
+        }
+      }
+      points = centered(points);
+      break;
+    }
+    case "bcc":
+      for (let x = 0; x < cols; x++) {
+        for (let y = 0; y < rows; y++) {
+          for (let z = 0; z < layers; z++) {
+            points.push([x * spacing - half[0], y * spacing - half[1], z * spacing - half[2]]);
+            if (x < cols - 1 && y < rows - 1 && z < layers - 1) {
+              points.push([(x + 0.5) * spacing - half[0], (y + 0.5) * spacing - half[1], (z + 0.5) * spacing - half[2]]);
+            }
+          }
+        }
+      }
+      break;
+    case "shells": {
+      // Concentric spheres two spacings apart around a center point
+      points.push([0, 0, 0]);
+      for (let r = 2 * spacing; r <= radius + 1e-6; r += 2 * spacing) fibonacciSphere(r, spacing, points);
+      break;
+    }
+    case "fibonacci":
+      fibonacciSphere(radius, spacing, points);
+      break;
+    case "cylinder": {
+      // Solid discs stacked along Y
+      const discRadius = Math.max(spacing / 2, Math.min(half[0], half[2]));
+      for (let y = 0; y < rows; y++) {
+        disc(discRadius, spacing, (u, v) => points.push([u, y * spacing - half[1], v]));
+      }
+      break;
+    }
+    case "torus": {
+      // Solid tube cross-sections swept around the Y axis
+      const ring = Math.max(spacing, Math.min(half[0], half[2]));
+      const tube = Math.max(spacing / 2, Math.min(half[1], ring * 0.35));
+      const major = ring - tube;
+      const steps = Math.max(6, Math.round((2 * Math.PI * major) / spacing));
+      for (let i = 0; i < steps; i++) {
+        const a = (i / steps) * Math.PI * 2;
+        const cos = Math.cos(a);
+        const sin = Math.sin(a);
+        disc(tube, spacing, (u, v) => points.push([(major + u) * cos, v, (major + u) * sin]));
+      }
+      break;
+    }
+    case "poisson":
+      points = poissonFill(half, spacing, cols * rows * layers, seed);
+      break;
+    case "cubic":
+    default: {
+      // Columns run along X, rows along Y and layers along Z
+      const spheres: SphereData[] = [];
+      for (let x = 0; x < cols; x++) {
+        for (let y = 0; y < rows; y++) {
+          for (let z = 0; z < layers; z++) {
+            spheres.push({
+              id: `sphere-${x}-${y}-${z}`,
+              position: [x * spacing - half[0], y * spacing - half[1], z * spacing - half[2]],
+              color: "#ffffff",
+              scale: 1,
+            });
+          }
+        }
+      }
+      return spheres;
+    }
+  }
+
+  return points.map((position, i) => ({ id: `sphere-${layout}-${i}`, position, color: "#ffffff", scale: 1 }));
+}
+
+/**
+ * Index pairs of points closer than `linkDistance`, found through a spatial hash so the
+ * cost stays linear in the point count. Each pair is listed once; a point joins at most
+ * MAX_LINKS_PER_POINT pairs and the list stops at MAX_NEIGHBOR_LINES.
+ */
+export function findNeighbors(positions: Vec3[], linkDistance: number): Uint32Array {
+  const cells = new Map<number, number[]>();
+  // Cell coordinates packed into one exact integer (16 bits each, offset to stay positive)
+  const keyOf = (x: number, y: number, z: number) => ((x + 32768) * 65536 + (y + 32768)) * 65536 + (z + 32768);
+  const cellOf = (v: number) => Math.floor(v / linkDistance);
+  positions.forEach(([x, y, z], i) => {
+    const key = keyOf(cellOf(x), cellOf(y), cellOf(z));
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(i);
+    else cells.set(key, [i]);
+  });
+
+  const pairs: number[] = [];
+  const links = new Uint8Array(positions.length);
+  const limit = linkDistance * linkDistance;
+  for (let i = 0; i < positions.length && pairs.length < MAX_NEIGHBOR_LINES * 2; i++) {
+    const [x, y, z] = positions[i];
+    const cx = cellOf(x);
+    const cy = cellOf(y);
+    const cz = cellOf(z);
+    scan: for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bucket = cells.get(keyOf(cx + dx, cy + dy, cz + dz));
+          if (!bucket) continue;
+          for (const j of bucket) {
+            if (links[i] >= MAX_LINKS_PER_POINT || pairs.length >= MAX_NEIGHBOR_LINES * 2) break scan;
+            if (j <= i || links[j] >= MAX_LINKS_PER_POINT) continue;
+            const p = positions[j];
+            const ex = p[0] - x;
+            const ey = p[1] - y;
+            const ez = p[2] - z;
+            if (ex * ex + ey * ey + ez * ez > limit) continue;
+            pairs.push(i, j);
+            links[i]++;
+            links[j]++;
+          }
+        }
+      }
+    }
+  }
+  return new Uint32Array(pairs);
+}
+
+/**
+ * End points (6 floats per line) of the lines joining neighbouring points.
+ */
+export function neighborSegments(positions: Vec3[], linkDistance: number) {
+  const pairs = findNeighbors(positions, linkDistance);
+  const segments = new Float32Array(pairs.length * 3);
+  pairs.forEach((index, i) => segments.set(positions[index], i * 3));
+  return segments;
+}
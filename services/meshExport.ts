@@ -0,0 +1,357 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { Primitive } from "../types";
+import { PrimitiveDistance, primitiveDistance } from "./primitives";
+
+export type MeshExportFormat = "glb" | "obj" | "stl";
+
+export interface MeshExportOptions {
+  format: MeshExportFormat;
+  /** Instances whose largest axis scale is below this are left out. */
+  minScale: number;
+  /** GLB only: include the lattice lines. */
+  lines: boolean;
+  /** OBJ/STL only: mesh the union of the instances as one closed surface. */
+  union: boolean;
+}
+
+export const MESH_EXPORT_FORMATS: { format: MeshExportFormat; label: string }[] = [
+  { format: "glb", label: "GLB" },
+  { format: "obj", label: "OBJ" },
+  { format: "stl", label: "STL" },
+];
+
+export const DEFAULT_MESH_EXPORT_OPTIONS: MeshExportOptions = {
+  format: "glb",
+  minScale: 0.02,
+  lines: false,
+  union: false,
+};
+
+/** Union surfaces are sampled on a grid this many cells across the longest axis. */
+export const UNION_RESOLUTION = 160;
+
+/** Whether the union can be built from this primitive, which needs its distance function. */
+export const supportsUnion = (primitive: Primitive) => primitiveDistance(primitive) !== null;
+
+/**
+ * The instances as currently shown: a 4x4 matrix (16 floats) and a linear RGB color
+ * (3 floats) per instance, plus the primitive they all share.
+ */
+export interface InstanceSnapshot {
+  count: number;
+  matrices: Float32Array;
+  colors: Float32Array;
+  geometry: THREE.BufferGeometry;
+}
+
+/**
+ * Lattice lines to include in a GLB: segment end points (6 floats per line) and their look.
+ */
+export interface LineSnapshot {
+  positions: Float32Array;
+  color: THREE.Color;
+  opacity: number;
+}
+
+// Longest axis of an instance matrix
+const instanceScale = (m: Float32Array, offset: number) =>
+  Math.max(
+    Math.hypot(m[offset], m[offset + 1], m[offset + 2]),
+    Math.hypot(m[offset + 4], m[offset + 5], m[offset + 6]),
+    Math.hypot(m[offset + 8], m[offset + 9], m[offset + 10])
+  );
+
+const keptInstances = ({ count, matrices }: InstanceSnapshot, minScale: number) => {
+  const kept: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (instanceScale(matrices, i * 16) >= Math.max(1e-6, minScale)) kept.push(i);
+  }
+  return kept;
+};
+
+// Position, normal and index only: the live geometry also carries per-instance shader inputs
+const plainGeometry = (source: THREE.BufferGeometry) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", source.getAttribute("position").clone());
+  const normal = source.getAttribute("normal");
+  if (normal) geometry.setAttribute("normal", normal.clone());
+  else geometry.computeVertexNormals();
+  if (source.index) geometry.setIndex(source.index.clone());
+  return geometry;
+};
+
+function exportGlb(snapshot: InstanceSnapshot, kept: number[], lines: LineSnapshot | null) {
+  const scene = new THREE.Scene();
+  const geometry = plainGeometry(snapshot.geometry);
+  const material = new THREE.MeshStandardMaterial({ color: "#ffffff", roughness: 0.1, metalness: 0.2 });
+  const mesh = new THREE.InstancedMesh(geometry, material, kept.length);
+  mesh.name = "instances";
+  const matrix = new THREE.Matrix4();
+  const color = new THREE.Color();
+  kept.forEach((source, i) => {
+    mesh.setMatrixAt(i, matrix.fromArray(snapshot.matrices, source * 16));
+    mesh.setColorAt(i, color.fromArray(snapshot.colors, source * 3));
+  });
+  scene.add(mesh);
+
+  let lineGeometry: THREE.BufferGeometry | null = null;
+  if (lines && lines.positions.length > 0) {
+    lineGeometry = new THREE.BufferGeometry();
+    lineGeometry.setAttribute("position", new THREE.Float32BufferAttribute(lines.positions, 3));
+    const segments = new THREE.LineSegments(
+      lineGeometry,
+      new THREE.LineBasicMaterial({ color: lines.color, transparent: lines.opacity < 1, opacity: lines.opacity })
+    );
+    segments.name = "lattice-lines";
+    scene.add(segments);
+  }
+
+  return new GLTFExporter()
+    .parseAsync(scene, { binary: true })
+    .then((result) => new Blob([result as ArrayBuffer], { type: "model/gltf-binary" }))
+    .finally(() => {
+      geometry.dispose();
+      material.dispose();
+      lineGeometry?.dispose();
+    });
+}
+
+// Every kept instance transformed into world space and merged into one indexed mesh with vertex colors
+function bakeInstances(snapshot: InstanceSnapshot, kept: number[]) {
+  const source = plainGeometry(snapshot.geometry);
+  const position = source.getAttribute("position");
+  const normal = source.getAttribute("normal");
+  const vertices = position.count;
+  const index = source.index ? Array.from(source.index.array) : Array.from({ length: vertices }, (_, i) => i);
+
+  const positions = new Float32Array(kept.length * vertices * 3);
+  const normals = new Float32Array(kept.length * vertices * 3);
+  const colors = new Float32Array(kept.length * vertices * 3);
+  const indices = new Uint32Array(kept.length * index.length);
+  const matrix = new THREE.Matrix4();
+  const normalMatrix = new THREE.Matrix3();
+  const v = new THREE.Vector3();
+
+  kept.forEach((instance, k) => {
+    matrix.fromArray(snapshot.matrices, instance * 16);
+    normalMatrix.getNormalMatrix(matrix);
+    // A mirroring matrix would turn the faces inside out
+    const flip = matrix.determinant() < 0;
+    const base = k * vertices;
+    for (let i = 0; i < vertices; i++) {
+      v.fromBufferAttribute(position, i).applyMatrix4(matrix).toArray(positions, (base + i) * 3);
+      v.fromBufferAttribute(normal, i).applyMatrix3(normalMatrix).normalize().toArray(normals, (base + i) * 3);
+      colors.set(snapshot.colors.subarray(instance * 3, instance * 3 + 3), (base + i) * 3);
+    }
+    for (let i = 0; i < index.length; i += 3) {
+      const offset = k * index.length + i;
+      indices[offset] = base + index[i];
+      indices[offset + 1] = base + index[flip ? i + 2 : i + 1];
+      indices[offset + 2] = base + index[flip ? i + 1 : i + 2];
+    }
+  });
+  source.dispose();
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(new THREE.Uint32BufferAttribute(indices, 1));
+  return geometry;
+}
+
+/**
+ * One closed surface around all kept instances, for printing. Each grid point is taken into
+ * every nearby instance's local space, where the primitive's own distance function applies,
+ * so orientation and stretch carry over; the union's distance field is sampled on a grid and
+ * meshed with surface nets. Vertices take the color of the instance nearest to them.
+ */
+export function unionGeometry(
+  snapshot: InstanceSnapshot,
+  kept: number[],
+  distance: PrimitiveDistance,
+  resolution = UNION_RESOLUTION
+) {
+  snapshot.geometry.computeBoundingSphere();
+  const bounding = snapshot.geometry.boundingSphere!;
+  const matrix = new THREE.Matrix4();
+  const inverse = new THREE.Matrix4();
+  const center = new THREE.Vector3();
+
+  // World-space box around every kept instance
+  const min = new THREE.Vector3(Infinity, Infinity, Infinity);
+  const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
+  kept.forEach((instance) => {
+    matrix.fromArray(snapshot.matrices, instance * 16);
+    center.copy(bounding.center).applyMatrix4(matrix);
+    const reach = bounding.radius * instanceScale(snapshot.matrices, instance * 16);
+    min.min(center.clone().subScalar(reach));
+    max.max(center.clone().addScalar(reach));
+  });
+  if (kept.length === 0) return new THREE.BufferGeometry();
+
+  const cell = Math.max(max.x - min.x, max.y - min.y, max.z - min.z) / resolution;
+  // Two empty cells of padding keep the surface off the grid's faces, so it always closes
+  min.subScalar(cell * 2);
+  const dims = [
+    Math.ceil((max.x - min.x) / cell) + 3,
+    Math.ceil((max.y - min.y) / cell) + 3,
+    Math.ceil((max.z - min.z) / cell) + 3,
+  ];
+  const [nx, ny, nz] = dims;
+  const field = new Float32Array(nx * ny * nz).fill(cell * 2);
+  const owner = new Int32Array(nx * ny * nz).fill(-1);
+  const at = (x: number, y: number, z: number) => x + nx * (y + ny * z);
+  const local = new THREE.Vector3();
+
+  kept.forEach((instance) => {
+    matrix.fromArray(snapshot.matrices, instance * 16);
+    inverse.copy(matrix).invert();
+    const m = snapshot.matrices;
+    const o = instance * 16;
+    // Local distances shrink by at most the shortest axis scale on the way to world space
+    const shortest = Math.min(
+      Math.hypot(m[o], m[o + 1], m[o + 2]),
+      Math.hypot(m[o + 4], m[o + 5], m[o + 6]),
+      Math.hypot(m[o + 8], m[o + 9], m[o + 10])
+    );
+    center.copy(bounding.center).applyMatrix4(matrix);
+    const reach = bounding.radius * instanceScale(m, o) + cell * 2;
+    const lo = [center.x - reach - min.x, center.y - reach - min.y, center.z - reach - min.z].map((v) =>
+      Math.max(0, Math.floor(v / cell))
+    );
+    const hi = [center.x + reach - min.x, center.y + reach - min.y, center.z + reach - min.z].map((v, i) =>
+      Math.min(dims[i] - 1, Math.ceil(v / cell))
+    );
+    for (let z = lo[2]; z <= hi[2]; z++) {
+      for (let y = lo[1]; y <= hi[1]; y++) {
+        for (let x = lo[0]; x <= hi[0]; x++) {
+          local.set(min.x + x * cell, min.y + y * cell, min.z + z * cell).applyMatrix4(inverse);
+          const d = distance(local.x, local.y, local.z) * shortest;
+          const i = at(x, y, z);
+          if (d < field[i]) {
+            field[i] = d;
+            owner[i] = instance;
+          }
+        }
+      }
+    }
+  });
+
+  // One vertex per cell the surface crosses, at the mean of its edge crossings
+  const cellVertex = new Int32Array(nx * ny * nz).fill(-1);
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const corners = [0, 0, 0, 0, 0, 0, 0, 0];
+  const EDGES = [
+    [0, 1], [2, 3], [4, 5], [6, 7],
+    [0, 2], [1, 3], [4, 6], [5, 7],
+    [0, 4], [1, 5], [2, 6], [3, 7],
+  ];
+  for (let z = 0; z < nz - 1; z++) {
+    for (let y = 0; y < ny - 1; y++) {
+      for (let x = 0; x < nx - 1; x++) {
+        let inside = 0;
+        let nearest = -1;
+        let nearestValue = Infinity;
+        for (let c = 0; c < 8; c++) {
+          const i = at(x + (c & 1), y + ((c >> 1) & 1), z + ((c >> 2) & 1));
+          corners[c] = field[i];
+          if (field[i] < 0) inside++;
+          if (field[i] < nearestValue) {
+            nearestValue = field[i];
+            nearest = owner[i];
+          }
+        }
+        if (inside === 0 || inside === 8) continue;
+        let sx = 0;
+        let sy = 0;
+        let sz = 0;
+        let crossings = 0;
+        for (const [a, b] of EDGES) {
+          if (corners[a] < 0 === corners[b] < 0) continue;
+          const t = corners[a] / (corners[a] - corners[b]);
+          sx += (a & 1) + ((b & 1) - (a & 1)) * t;
+          sy += ((a >> 1) & 1) + (((b >> 1) & 1) - ((a >> 1) & 1)) * t;
+          sz += ((a >> 2) & 1) + (((b >> 2) & 1) - ((a >> 2) & 1)) * t;
+          crossings++;
+        }
+        cellVertex[at(x, y, z)] = positions.length / 3;
+        positions.push(
+          min.x + (x + sx / crossings) * cell,
+          min.y + (y + sy / crossings) * cell,
+          min.z + (z + sz / crossings) * cell
+        );
+        colors.push(...(nearest >= 0 ? snapshot.colors.subarray(nearest * 3, nearest * 3 + 3) : [1, 1, 1]));
+      }
+    }
+  }
+
+  // A quad around every grid edge the surface crosses, joining the four cells that share it
+  const indices: number[] = [];
+  const step = [1, nx, nx * ny];
+  for (let z = 1; z < nz - 1; z++) {
+    for (let y = 1; y < ny - 1; y++) {
+      for (let x = 1; x < nx - 1; x++) {
+        const i = at(x, y, z);
+        const inside = field[i] < 0;
+        for (let axis = 0; axis < 3; axis++) {
+          if (inside === field[i + step[axis]] < 0) continue;
+          // The other two axes in cyclic order, so the quad winds counter-clockwise around +axis
+          const u = step[(axis + 1) % 3];
+          const v = step[(axis + 2) % 3];
+          const quad = [cellVertex[i], cellVertex[i - u], cellVertex[i - u - v], cellVertex[i - v]];
+          if (!inside) quad.reverse();
+          indices.push(quad[0], quad[1], quad[2], quad[0], quad[2], quad[3]);
+        }
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Writes the snapshot as a file. GLB keeps the instancing (EXT_mesh_gpu_instancing with
+ * per-instance colors) and optionally the lattice lines; OBJ and STL bake every instance,
+ * or their union, into a single mesh. OBJ carries vertex colors, STL has none. `primitive`
+ * names the snapshot's shape, whose distance function the union is built from.
+ */
+export async function exportMesh(
+  snapshot: InstanceSnapshot,
+  options: MeshExportOptions,
+  lines: LineSnapshot | null,
+  primitive: Primitive
+): Promise<Blob> {
+  const kept = keptInstances(snapshot, options.minScale);
+  if (kept.length === 0) throw new Error("No instances are above the scale threshold.");
+  if (options.format === "glb") return exportGlb(snapshot, kept, options.lines ? lines : null);
+
+  const distance = options.union ? primitiveDistance(primitive) : null;
+  if (options.union && !distance) throw new Error("A loaded GLB mesh cannot be merged into a union.");
+  const geometry = distance ? unionGeometry(snapshot, kept, distance) : bakeInstances(snapshot, kept);
+  const material = new THREE.MeshStandardMaterial({ vertexColors: true });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = options.union ? "union" : "instances";
+  try {
+    if (options.format === "obj") {
+      return new Blob([new OBJExporter().parse(mesh)], { type: "model/obj" });
+    }
+    const data = new STLExporter().parse(mesh, { binary: true }) as DataView;
+    return new Blob([data.buffer as ArrayBuffer], { type: "model/stl" });
+  } finally {
+    geometry.dispose();
+    material.dispose();
+  }
+}
+
+export const meshExportFileName = ({ format, union }: MeshExportOptions) =>
+  `particle-bounce-house-${union && format !== "glb" ? "union" : "frame"}.${format}`;
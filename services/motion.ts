@@ -0,0 +1,277 @@
+import * as THREE from "three";
+import { FocalMotion, MotionKind, Vec3 } from "../types";
+
+export interface MotionParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export const MOTION_MODELS: Record<MotionKind, { label: string; params: MotionParamSpec[] }> = {
+  sine: {
+    label: "Sine",
+    params: [
+      { key: "amplitude", label: "Amplitude", min: 0.1, max: 1, step: 0.05, defaultValue: 1 },
+      { key: "rate", label: "Rate", min: 0.1, max: 3, step: 0.05, defaultValue: 1 },
+    ],
+  },
+  orbit: {
+    label: "Orbit",
+    params: [
+      { key: "radius", label: "Radius", min: 0.1, max: 1, step: 0.05, defaultValue: 0.7 },
+      { key: "tilt", label: "Tilt", min: 0, max: 90, step: 1, defaultValue: 20 },
+      { key: "rate", label: "Rate", min: 0.1, max: 3, step: 0.05, defaultValue: 1 },
+    ],
+  },
+  figure8: {
+    label: "Figure 8",
+    params: [
+      { key: "width", label: "Width", min: 0.1, max: 1, step: 0.05, defaultValue: 0.8 },
+      { key: "depth", label: "Depth", min: 0.1, max: 1, step: 0.05, defaultValue: 0.6 },
+      { key: "lift", label: "Lift", min: 0, max: 1, step: 0.05, defaultValue: 0.3 },
+      { key: "rate", label: "Rate", min: 0.1, max: 3, step: 0.05, defaultValue: 1 },
+    ],
+  },
+  noise: {
+    label: "Wander",
+    params: [
+      { key: "wander", label: "Wander", min: 0.1, max: 1, step: 0.05, defaultValue: 0.8 },
+      { key: "frequency", label: "Frequency", min: 0.05, max: 2, step: 0.05, defaultValue: 0.4 },
+      { key: "octaves", label: "Detail", min: 1, max: 4, step: 1, defaultValue: 2 },
+    ],
+  },
+  spline: {
+    label: "Path",
+    params: [
+      { key: "rate", label: "Rate", min: 0.1, max: 3, step: 0.05, defaultValue: 1 },
+    ],
+  },
+  bounce: {
+    label: "Bounce",
+    params: [
+      { key: "velocity", label: "Velocity", min: 0.1, max: 2, step: 0.05, defaultValue: 0.6 },
+      { key: "gravity", label: "Gravity", min: 0, max: 2, step: 0.05, defaultValue: 0 },
+      { key: "restitution", label: "Restitution", min: 0.5, max: 1, step: 0.01, defaultValue: 1 },
+    ],
+  },
+};
+
+export const MOTION_KINDS = Object.keys(MOTION_MODELS) as MotionKind[];
+
+export const DEFAULT_PATH: Vec3[] = [
+  [-0.7, 0, -0.7],
+  [0.7, 0.4, -0.7],
+  [0.7, 0, 0.7],
+  [-0.7, -0.4, 0.7],
+];
+
+export const defaultMotionParams = (kind: MotionKind) =>
+  Object.fromEntries(MOTION_MODELS[kind].params.map((p) => [p.key, p.defaultValue]));
+
+export const createFocalMotion = (kind: MotionKind = "sine"): FocalMotion => ({
+  kind,
+  params: defaultMotionParams(kind),
+  path: DEFAULT_PATH,
+});
+
+/**
+ * Per-center jitter drawn once at startup; engine randomness blends between none and this.
+ */
+export interface MotionPhase {
+  px: number;
+  py: number;
+  pz: number;
+  amp: THREE.Vector3;
+  freq: THREE.Vector3;
+}
+
+export function createMotionPhase(random: () => number): MotionPhase {
+  const amp = new THREE.Vector3(0.6 + random() * 0.8, 0.6 + random() * 0.8, 0.6 + random() * 0.8);
+  const freq = new THREE.Vector3(1 + random() * 0.3, 1 + random() * 0.3, 1 + random() * 0.3);
+  return {
+    px: random() * Math.PI * 2,
+    py: random() * Math.PI * 2,
+    pz: random() * Math.PI * 2,
+    amp,
+    freq,
+  };
+}
+
+/**
+ * Mutable per-center state for models that integrate over time (bounce).
+ */
+export interface MotionState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  initialized: boolean;
+}
+
+export const createMotionState = (): MotionState => ({
+  position: new THREE.Vector3(),
+  velocity: new THREE.Vector3(),
+  initialized: false,
+});
+
+export interface MotionContext {
+  index: number;
+  /** Simulation time (already scaled by the global speed). */
+  time: number;
+  /** Simulation time step for this frame. */
+  delta: number;
+  /** Half-size of the allowed movement box. */
+  bounds: THREE.Vector3;
+  /** Smoothed engine randomness, 0-1. */
+  randomness: number;
+  phase: MotionPhase;
+}
+
+const BASE_FREQ = 0.2;
+// Slowest a wall hit may leave a bouncing center, relative to its launch speed; below this the
+// rebound is topped back up, so a restitution under 1 damps the motion without ever stopping it
+const MIN_BOUNCE_SPEED = 0.35;
+const param = (motion: FocalMotion, key: string) =>
+  motion.params[key] ?? MOTION_MODELS[motion.kind].params.find((p) => p.key === key)?.defaultValue ?? 0;
+
+// Smooth 1D value noise in [-1, 1], hashed from an integer lattice.
+const hash = (n: number) => {
+  const s = Math.sin(n * 127.1 + 311.7) * 43758.5453123;
+  return s - Math.floor(s);
+};
+
+function valueNoise(x: number, seed: number) {
+  const i = Math.floor(x);
+  const f = x - i;
+  const u = f * f * f * (f * (f * 6 - 15) + 10);
+  const a = hash(i + seed * 57.0);
+  const b = hash(i + 1 + seed * 57.0);
+  return (a + (b - a) * u) * 2 - 1;
+}
+
+function fractalNoise(x: number, seed: number, octaves: number) {
+  let sum = 0;
+  let amplitude = 1;
+  let norm = 0;
+  for (let o = 0; o < octaves; o++) {
+    sum += valueNoise(x * Math.pow(2, o), seed + o * 13.37) * amplitude;
+    norm += amplitude;
+    amplitude *= 0.5;
+  }
+  return sum / norm;
+}
+
+const splineCache = new WeakMap<Vec3[], THREE.CatmullRomCurve3>();
+
+function getSpline(path: Vec3[]) {
+  let curve = splineCache.get(path);
+  if (!curve) {
+    curve = new THREE.CatmullRomCurve3(path.map((p) => new THREE.Vector3(...p)), true, "centripetal");
+    splineCache.set(path, curve);
+  }
+  return curve;
+}
+
+/**
+ * Samples the closed user path at u (0-1) in world space.
+ */
+export function sampleMotionPath(path: Vec3[], u: number, bounds: THREE.Vector3, out: THREE.Vector3) {
+  if (path.length === 0) return out.set(0, 0, 0);
+  if (path.length === 1) return out.set(...path[0]).multiply(bounds);
+  return getSpline(path).getPointAt(((u % 1) + 1) % 1, out).multiply(bounds);
+}
+
+/**
+ * Writes the position of one focal point for the current frame into `out`.
+ */
+export function evaluateMotion(motion: FocalMotion, ctx: MotionContext, state: MotionState, out: THREE.Vector3) {
+  const { index: i, time: t, delta, bounds, randomness, phase } = ctx;
+  const lerp = THREE.MathUtils.lerp;
+  const ampX = lerp(1, phase.amp.x, randomness);
+  const ampY = lerp(1, phase.amp.y, randomness);
+  const ampZ = lerp(1, phase.amp.z, randomness);
+
+  switch (motion.kind) {
+    case "orbit": {
+      const radius = param(motion, "radius");
+      const tilt = THREE.MathUtils.degToRad(param(motion, "tilt"));
+      const a = t * BASE_FREQ * param(motion, "rate") * lerp(1, phase.freq.x, randomness) + phase.px;
+      out.set(
+        Math.cos(a) * radius * bounds.x * ampX,
+        Math.sin(a) * Math.sin(tilt) * radius * bounds.y * ampY,
+        Math.sin(a) * Math.cos(tilt) * radius * bounds.z * ampZ
+      );
+      return out;
+    }
+    case "figure8": {
+      const a = t * BASE_FREQ * param(motion, "rate") * lerp(1, phase.freq.x, randomness) + phase.px;
+      out.set(
+        Math.sin(a) * param(motion, "width") * bounds.x * ampX,
+        Math.cos(a) * param(motion, "lift") * bounds.y * ampY,
+        Math.sin(2 * a) * param(motion, "depth") * bounds.z * ampZ
+      );
+      return out;
+    }
+    case "noise": {
+      const x = t * param(motion, "frequency") * 0.5;
+      const octaves = Math.round(param(motion, "octaves"));
+      const wander = param(motion, "wander");
+      out.set(
+        fractalNoise(x + phase.px * 10, i * 3 + 1, octaves) * wander * bounds.x * ampX,
+        fractalNoise(x + phase.py * 10, i * 3 + 2, octaves) * wander * bounds.y * ampY,
+        fractalNoise(x + phase.pz * 10, i * 3 + 3, octaves) * wander * bounds.z * ampZ
+      );
+      return out;
+    }
+    case "spline": {
+      const u = t * BASE_FREQ * param(motion, "rate") * 0.25 + phase.px / (Math.PI * 2);
+      return sampleMotionPath(motion.path, u, bounds, out);
+    }
+    case "bounce": {
+      if (!state.initialized) {
+        state.position.copy(out).clamp(bounds.clone().negate(), bounds);
+        state.velocity
+          .set(Math.cos(phase.px) * Math.sin(phase.py), Math.cos(phase.py), Math.sin(phase.px) * Math.sin(phase.py))
+          .normalize();
+        state.initialized = true;
+      }
+      const speed = param(motion, "velocity") * bounds.length() * BASE_FREQ;
+      const restitution = param(motion, "restitution");
+      state.velocity.y -= param(motion, "gravity") * delta;
+      state.position.addScaledVector(state.velocity, speed * delta);
+
+      // Reflect off each wall of the bounds box
+      let hit = false;
+      for (const axis of ["x", "y", "z"] as const) {
+        const limit = bounds[axis];
+        if (state.position[axis] > limit) {
+          state.position[axis] = limit;
+          state.velocity[axis] = -Math.abs(state.velocity[axis]) * restitution;
+          hit = true;
+        } else if (state.position[axis] < -limit) {
+          state.position[axis] = -limit;
+          state.velocity[axis] = Math.abs(state.velocity[axis]) * restitution;
+          hit = true;
+        }
+      }
+      if (hit && state.velocity.length() < MIN_BOUNCE_SPEED) state.velocity.setLength(MIN_BOUNCE_SPEED);
+      return out.copy(state.position);
+    }
+    case "sine":
+    default: {
+      const rate = param(motion, "rate");
+      const amplitude = param(motion, "amplitude");
+      const freqJitterX = (1.0 + i * 0.1) * lerp(1, phase.freq.x, randomness);
+      const freqJitterY = (1.35 + i * 0.1) * lerp(1, phase.freq.y, randomness);
+      const freqJitterZ = (0.8 + i * 0.08) * lerp(1, phase.freq.z, randomness);
+
+      out.set(
+        Math.sin(t * BASE_FREQ * rate * freqJitterX + phase.px) * bounds.x * amplitude * ampX,
+        Math.sin(t * BASE_FREQ * rate * freqJitterY + phase.py) * bounds.y * 0.85 * amplitude * ampY,
+        Math.cos(t * BASE_FREQ * rate * freqJitterZ + phase.pz) * bounds.z * amplitude * ampZ
+      );
+      return out;
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { PhysicsSettings } from "../types";
+import { classicCurve, generateScaleLUT } from "./curve";
+import { AXES, FieldFrame, metricLength } from "./field";
+
+export const FORCE_LUT_SIZE = 64;
+
+/** Valid range of each numeric physics setting. */
+export const PHYSICS_RANGES: Record<Exclude<keyof PhysicsSettings, "forceCurve">, { min: number; max: number }> = {
+  stiffness: { min: 0, max: 40 },
+  damping: { min: 0, max: 10 },
+  gravity: { min: 0, max: 30 },
+  bounce: { min: 0, max: 1 },
+  force: { min: -60, max: 60 },
+};
+
+export const createPhysicsSettings = (): PhysicsSettings => ({
+  stiffness: 8,
+  damping: 1.5,
+  gravity: 0,
+  bounce: 0.6,
+  force: 20,
+  forceCurve: classicCurve(0.33, 0.8, 0.66, 0.2, 1, 0),
+});
+
+// Share of the approach speed two touching bodies keep
+const CONTACT_RESTITUTION = 0.4;
+
+/**
+ * Position and velocity (xyz each) of every body, in lattice order.
+ */
+export interface PhysicsBodies {
+  count: number;
+  positions: Float64Array;
+  velocities: Float64Array;
+}
+
+/** Bodies at rest at their homes. */
+export const createPhysicsBodies = (homes: Float64Array): PhysicsBodies => ({
+  count: homes.length / 3,
+  positions: homes.slice(),
+  velocities: new Float64Array(homes.length),
+});
+
+/**
+ * Per-frame inputs besides the focal field: the settings, the force curve sampled into
+ * FORCE_LUT_SIZE multipliers, the floor height and each body's current radius.
+ */
+export interface PhysicsStep {
+  settings: PhysicsSettings;
+  forceLut: Float32Array;
+  floor: number;
+  radii: Float32Array;
+}
+
+export const forceLutOf = (settings: PhysicsSettings) =>
+  generateScaleLUT(settings.forceCurve, FORCE_LUT_SIZE, 0, 1);
+
+// Pushes overlapping bodies apart and trades their approach speed, found through a spatial
+// hash of cells one largest diameter wide so only neighbouring cells need checking
+const collide = ({ count, positions: p, velocities: v }: PhysicsBodies, radii: Float32Array) => {
+  let largest = 0;
+  for (let i = 0; i < count; i++) largest = Math.max(largest, radii[i]);
+  if (largest <= 0) return;
+  const size = Math.max(2 * largest, 0.05);
+  const cells = new Map<number, number[]>();
+  // Cell coordinates packed into one exact integer (16 bits each, offset to stay positive)
+  const keyOf = (x: number, y: number, z: number) => ((x + 32768) * 65536 + (y + 32768)) * 65536 + (z + 32768);
+  const cellOf = (value: number) => Math.min(32767, Math.max(-32768, Math.floor(value / size)));
+  for (let i = 0; i < count; i++) {
+    const key = keyOf(cellOf(p[i * 3]), cellOf(p[i * 3 + 1]), cellOf(p[i * 3 + 2]));
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(i);
+    else cells.set(key, [i]);
+  }
+
+  for (let i = 0; i < count; i++) {
+    const ri = radii[i];
+    if (ri <= 0) continue;
+    const cx = cellOf(p[i * 3]);
+    const cy = cellOf(p[i * 3 + 1]);
+    const cz = cellOf(p[i * 3 + 2]);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bucket = cells.get(keyOf(cx + dx, cy + dy, cz + dz));
+          if (!bucket) continue;
+          for (const j of bucket) {
+            if (j <= i) continue;
+            const reach = ri + radii[j];
+            const ex = p[j * 3] - p[i * 3];
+            const ey = p[j * 3 + 1] - p[i * 3 + 1];
+            const ez = p[j * 3 + 2] - p[i * 3 + 2];
+            const distSq = ex * ex + ey * ey + ez * ez;
+            if (distSq >= reach * reach || distSq === 0) continue;
+            const dist = Math.sqrt(distSq);
+            const nx = ex / dist;
+            const ny = ey / dist;
+            const nz = ez / dist;
+            const push = (reach - dist) / 2;
+            p[i * 3] -= nx * push;
+            p[i * 3 + 1] -= ny * push;
+            p[i * 3 + 2] -= nz * push;
+            p[j * 3] += nx * push;
+            p[j * 3 + 1] += ny * push;
+            p[j * 3 + 2] += nz * push;
+            const approach = (v[j * 3] - v[i * 3]) * nx + (v[j * 3 + 1] - v[i * 3 + 1]) * ny + (v[j * 3 + 2] - v[i * 3 + 2]) * nz;
+            if (approach >= 0) continue;
+            const impulse = -(1 + CONTACT_RESTITUTION) * approach / 2;
+            v[i * 3] -= nx * impulse;
+            v[i * 3 + 1] -= ny * impulse;
+            v[i * 3 + 2] -= nz * impulse;
+            v[j * 3] += nx * impulse;
+            v[j * 3 + 1] += ny * impulse;
+            v[j * 3 + 2] += nz * impulse;
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Advances the bodies by `steps` fixed steps of `h` seconds, so a replay with the same steps
+ * lands on the same state. In each step every body is pulled toward its home by a damped
+ * spring, pushed (or pulled) along the line from every focal point it is within reach of,
+ * measured the way the field measures it, and dropped by gravity onto the floor; overlapping
+ * bodies are then separated by their radii.
+ */
+export function stepPhysics(bodies: PhysicsBodies, homes: Float64Array, frame: FieldFrame, step: PhysicsStep, h: number, steps: number) {
+  const { count, positions: p, velocities: v } = bodies;
+  const { settings: { stiffness, damping, gravity, bounce, force }, forceLut, floor, radii } = step;
+  const { focal, weights, radii: reaches, centers, maxDist, metric, axis, axisScale } = frame;
+  if (h <= 0 || homes.length !== p.length) return;
+  const axisIndex = AXES.indexOf(axis);
+  const [sx, sy, sz] = axisScale;
+  const last = forceLut.length - 1;
+
+  for (let s = 0; s < steps; s++) {
+    for (let i = 0; i < count; i++) {
+      const x = p[i * 3];
+      const y = p[i * 3 + 1];
+      const z = p[i * 3 + 2];
+      let ax = -stiffness * (x - homes[i * 3]) - damping * v[i * 3];
+      let ay = -stiffness * (y - homes[i * 3 + 1]) - damping * v[i * 3 + 1] - gravity;
+      let az = -stiffness * (z - homes[i * 3 + 2]) - damping * v[i * 3 + 2];
+
+      if (force !== 0) {
+        for (let c = 0; c < centers; c++) {
+          const w = weights[c];
+          if (w < 0.001) continue;
+          const ox = x - focal[c * 3];
+          const oy = y - focal[c * 3 + 1];
+          const oz = z - focal[c * 3 + 2];
+          const d = metricLength(metric, axisIndex, ox / sx, oy / sy, oz / sz) / (w * reaches[c] * maxDist);
+          const length = Math.sqrt(ox * ox + oy * oy + oz * oz);
+          if (d >= 1 || length === 0) continue;
+          const t = d * last;
+          const idx = Math.floor(t);
+          const level = forceLut[idx] + (forceLut[Math.min(last, idx + 1)] - forceLut[idx]) * (t - idx);
+          const push = (force * level) / length;
+          ax += ox * push;
+          ay += oy * push;
+          az += oz * push;
+        }
+      }
+
+      v[i * 3] += ax * h;
+      v[i * 3 + 1] += ay * h;
+      v[i * 3 + 2] += az * h;
+      p[i * 3] = x + v[i * 3] * h;
+      p[i * 3 + 1] = y + v[i * 3 + 1] * h;
+      p[i * 3 + 2] = z + v[i * 3 + 2] * h;
+
+      const bottom = floor + radii[i];
+      if (p[i * 3 + 1] < bottom) {
+        p[i * 3 + 1] = bottom;
+        if (v[i * 3 + 1] < 0) v[i * 3 + 1] = -v[i * 3 + 1] * bounce;
+      }
+    }
+    collide(bodies, radii);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { MatrixConfig, SphereData } from "../types";
+import { generateLattice } from "./lattice";
+import { encodePointCloud, fitToLattice, parsePointCloud, PointFrame } from "./pointCloud";
+
+const spheres: SphereData[] = [
+  { id: "a,1", position: [0, 0, 0], color: "#ff0000", scale: 0.5 },
+  { id: 'say "hi"', position: [1, 0, 0], color: "#00ff00", scale: 2 },
+];
+
+// What the field made of them: every sphere drawn at scale 3 in blue
+const frame: PointFrame = {
+  frame: 0,
+  time: 0,
+  scales: new Float32Array([3, 3]),
+  distances: new Float32Array([0.1, Infinity]),
+  colors: new Float32Array([0, 0, 1, 0, 0, 1]),
+};
+
+describe("parsePointCloud", () => {
+  it("reads quoted CSV cells with commas, quotes and line breaks", () => {
+    const csv = 'id,x,y,z,color\n"a,b",1,2,3,#123456\n"say ""hi""\nthere",4,5,6,\n';
+    expect(parsePointCloud(csv, "points.csv")).toEqual([
+      { id: "a,b", position: [1, 2, 3], color: "#123456", scale: 1 },
+      { id: 'say "hi"\nthere', position: [4, 5, 6], color: "#ffffff", scale: 1 },
+    ]);
+  });
+
+  it("reads back only the base scale and color of an export", async () => {
+    for (const format of ["csv", "json"] as const) {
+      const text = await encodePointCloud(spheres, [frame], 1, format).text();
+      expect(parsePointCloud(text, `points.${format}`)).toEqual(spheres);
+    }
+  });
+
+  it("keeps only the first frame of a recording", async () => {
+    const text = await encodePointCloud(spheres, [frame, { ...frame, frame: 1, time: 0.5 }], 1, "csv").text();
+    expect(parsePointCloud(text, "points.csv")).toHaveLength(2);
+  });
+
+  it("gives missing and duplicate ids ones the file doesn't use", () => {
+    const json = JSON.stringify([
+      { x: 0, y: 0, z: 0 },
+      { id: "sphere-import-0", x: 1, y: 0, z: 0 },
+      { id: "sphere-import-0", x: 2, y: 0, z: 0 },
+      { id: "p", position: [3, 0, 0], scale: 2 },
+    ]);
+    const ids = parsePointCloud(json, "points.json").map(({ id }) => id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(["sphere-import-1", "sphere-import-0", "sphere-import-2", "p"]);
+  });
+
+  it("skips points without a finite position and rejects files with none", () => {
+    expect(parsePointCloud("x,y,z\n1,2,3\n1,,3\nfoo,2,3", "points.csv")).toHaveLength(1);
+    expect(() => parsePointCloud("x,y\n1,2", "points.csv")).toThrow(/no points/);
+    expect(() => parsePointCloud("{", "points.json")).toThrow(/not valid JSON/);
+  });
+});
+
+describe("fitToLattice", () => {
+  const matrix: MatrixConfig = { rows: 3, cols: 4, layers: 2, spacing: 1.5, layout: "cubic" };
+
+  it("leaves a cubic lattice of the same dimensions in place", () => {
+    const lattice = generateLattice(matrix, 0);
+    fitToLattice(lattice, matrix).forEach(({ position }, i) => {
+      position.forEach((v, axis) => expect(v).toBeCloseTo(lattice[i].position[axis]));
+    });
+  });
+
+  it("centers and uniformly scales other data into the box", () => {
+    const far: SphereData[] = [
+      { id: "a", position: [100, 10, 0], color: "#ffffff", scale: 1 },
+      { id: "b", position: [300, 30, 0], color: "#ffffff", scale: 1 },
+    ];
+    const [a, b] = fitToLattice(far, matrix).map(({ position }) => position);
+    // x limits the fit: 4 columns reach 2.25 either side
+    expect(a[0]).toBeCloseTo(-2.25);
+    expect(b[0]).toBeCloseTo(2.25);
+    expect(b[1] - a[1]).toBeCloseTo(((b[0] - a[0]) * 20) / 200);
+    expect(a[2]).toBe(0);
+  });
+});
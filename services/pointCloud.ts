@@ -0,0 +1,259 @@
+import * as THREE from "three";
+import { MatrixConfig, SphereData } from "../types";
+import { MAX_MATRIX_DIM } from "./sceneSettings";
+
+export type PointCloudFormat = "csv" | "json";
+
+export interface PointCloudOptions {
+  format: PointCloudFormat;
+  /** Record `duration` seconds at `fps` instead of only the current frame. */
+  range: boolean;
+  fps: number;
+  duration: number;
+}
+
+export const POINT_CLOUD_FPS = [10, 24, 30, 60];
+
+export const DEFAULT_POINT_CLOUD_OPTIONS: PointCloudOptions = {
+  format: "csv",
+  range: false,
+  fps: 30,
+  duration: 2,
+};
+
+export const MAX_IMPORTED_SPHERES = MAX_MATRIX_DIM * MAX_MATRIX_DIM * MAX_MATRIX_DIM;
+
+/**
+ * One recorded frame: per sphere its computed scale, field distance (Infinity while no center
+ * is active) and displayed color in linear RGB (3 floats).
+ */
+export interface PointFrame {
+  frame: number;
+  time: number;
+  scales: Float32Array;
+  distances: Float32Array;
+  colors: Float32Array;
+}
+
+// `scale` and `color` are what the field made of each sphere; `base_scale` and `base_color` are
+// the sphere's own values, the only ones an import reads back
+const CSV_COLUMNS = [
+  "frame", "time", "id", "gx", "gy", "gz", "x", "y", "z", "scale", "distance", "color", "base_scale", "base_color",
+];
+
+const num = (v: number) => (Number.isFinite(v) ? String(+v.toFixed(5)) : "");
+
+// Quotes a CSV cell holding a comma, quote or line break
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Each sphere's cell in a grid of `spacing` steps from the lattice's lowest corner, so a
+ * cubic lattice gets back its column, row and layer indices.
+ */
+export function gridCoordinates(spheres: SphereData[], spacing: number) {
+  const min = [Infinity, Infinity, Infinity];
+  spheres.forEach(({ position }) => position.forEach((v, i) => (min[i] = Math.min(min[i], v))));
+  const grid = new Int32Array(spheres.length * 3);
+  spheres.forEach(({ position }, i) => {
+    position.forEach((v, axis) => (grid[i * 3 + axis] = Math.round((v - min[axis]) / spacing)));
+  });
+  return grid;
+}
+
+// Displayed colors as sRGB hex, the same notation SphereData uses
+const hexColors = (colors: Float32Array) => {
+  const color = new THREE.Color();
+  const hexes: string[] = [];
+  for (let i = 0; i < colors.length; i += 3) {
+    hexes.push(`#${color.setRGB(colors[i], colors[i + 1], colors[i + 2]).getHexString()}`);
+  }
+  return hexes;
+};
+
+/**
+ * Writes the recorded frames as CSV (one row per sphere per frame) or JSON (a list of frames,
+ * each with its points). Built frame by frame so long recordings never form one huge string.
+ */
+export function encodePointCloud(spheres: SphereData[], frames: PointFrame[], spacing: number, format: PointCloudFormat) {
+  const grid = gridCoordinates(spheres, spacing);
+  const parts: string[] = [];
+
+  if (format === "csv") {
+    parts.push(`${CSV_COLUMNS.join(",")}\n`);
+    frames.forEach(({ frame, time, scales, distances, colors }) => {
+      const hexes = hexColors(colors);
+      const rows = spheres.map(({ id, position, scale, color }, i) =>
+        [
+          frame, num(time), csvCell(id), grid[i * 3], grid[i * 3 + 1], grid[i * 3 + 2],
+          num(position[0]), num(position[1]), num(position[2]), num(scales[i]), num(distances[i]), hexes[i],
+          num(scale), color,
+        ].join(",")
+      );
+      parts.push(`${rows.join("\n")}\n`);
+    });
+    return new Blob(parts, { type: "text/csv" });
+  }
+
+  parts.push(`{"version":1,"spacing":${num(spacing)},"frames":[`);
+  frames.forEach(({ frame, time, scales, distances, colors }, f) => {
+    const hexes = hexColors(colors);
+    const points = spheres.map(({ id, position, scale, color }, i) => ({
+      id,
+      grid: [grid[i * 3], grid[i * 3 + 1], grid[i * 3 + 2]],
+      position: position.map((v) => +v.toFixed(5)),
+      scale: +scales[i].toFixed(5),
+      distance: Number.isFinite(distances[i]) ? +distances[i].toFixed(5) : null,
+      color: hexes[i],
+      baseScale: +scale.toFixed(5),
+      baseColor: color,
+    }));
+    parts.push(`${f > 0 ? "," : ""}${JSON.stringify({ frame, time: +time.toFixed(5), points })}`);
+  });
+  parts.push("]}\n");
+  return new Blob(parts, { type: "application/json" });
+}
+
+export const pointCloudFileName = ({ format, range, fps, duration }: PointCloudOptions) =>
+  `particle-bounce-house-points${range ? `-${Math.max(1, Math.round(duration * fps))}f` : ""}.${format}`;
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const toNumber = (v: unknown) => (typeof v === "number" ? v : typeof v === "string" && v.trim() !== "" ? Number(v) : NaN);
+const readColor = (v: unknown) => (typeof v === "string" && HEX_COLOR.test(v.trim()) ? v.trim() : null);
+
+// One imported point, with an empty id when it has none; anything missing or malformed falls back
+// to the lattice defaults. Exported recordings carry the computed scale and color next to the base
+// values (marked by their `distance` field), so for those only the base values are read
+const readPoint = (raw: Record<string, unknown>): SphereData | null => {
+  const position = (Array.isArray(raw.position) ? raw.position : [raw.x, raw.y, raw.z]).map(toNumber);
+  if (position.length !== 3 || !position.every(Number.isFinite)) return null;
+  const computed = "distance" in raw;
+  const color = readColor(raw.base_color ?? raw.baseColor) ?? (computed ? null : readColor(raw.color)) ?? "#ffffff";
+  const scale = toNumber(raw.base_scale ?? raw.baseScale ?? (computed ? undefined : raw.scale));
+  return {
+    id: typeof raw.id === "string" ? raw.id.trim() : typeof raw.id === "number" ? String(raw.id) : "",
+    position: position as SphereData["position"],
+    color: color.startsWith("#") ? color : `#${color}`,
+    scale: Number.isFinite(scale) && scale >= 0 ? scale : 1,
+  };
+};
+
+// Splits CSV text into rows of cells; quoted cells may hold commas, line breaks and doubled quotes
+const csvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') cell += text[i++];
+      else quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  rows.push([...row, cell]);
+  return rows.map((cells) => cells.map((c) => c.trim())).filter((cells) => cells.some((c) => c !== ""));
+};
+
+// Header row plus one row per point; only the first frame of a recording is used
+const parseCsv = (text: string) => {
+  const [head = [], ...rows] = csvRows(text);
+  const header = head.map((name) => name.toLowerCase());
+  const frameColumn = header.indexOf("frame");
+  const firstFrame = frameColumn >= 0 ? rows[0]?.[frameColumn] : undefined;
+  return rows
+    .filter((row) => frameColumn < 0 || row[frameColumn] === firstFrame)
+    .map((row) => Object.fromEntries(header.map((name, i) => [name, row[i]])));
+};
+
+// A list of points, an object with `points`, or an exported recording (its first frame)
+const parseJson = (raw: unknown): unknown[] => {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw !== "object" || raw === null) return [];
+  const record = raw as { points?: unknown; frames?: unknown };
+  if (Array.isArray(record.points)) return record.points;
+  if (Array.isArray(record.frames) && record.frames.length > 0) return parseJson(record.frames[0]);
+  return [];
+};
+
+/**
+ * Reads spheres from CSV or JSON point-list text: x/y/z (or a `position` array) per point and
+ * optionally `id`, hex `color` and `scale` (`base_color`/`base_scale` in exported recordings).
+ * Points without a finite position are skipped; duplicate or missing ids are replaced with ones
+ * the file doesn't use, so every sphere stays addressable.
+ */
+export function parsePointCloud(text: string, fileName: string): SphereData[] {
+  let points: unknown[];
+  if (/\.json$/i.test(fileName) || text.trimStart().startsWith("{") || text.trimStart().startsWith("[")) {
+    try {
+      points = parseJson(JSON.parse(text));
+    } catch {
+      throw new Error(`${fileName} is not valid JSON.`);
+    }
+  } else {
+    points = parseCsv(text);
+  }
+
+  const spheres = points.flatMap((raw) => {
+    if (typeof raw !== "object" || raw === null) return [];
+    const sphere = readPoint(raw as Record<string, unknown>);
+    return sphere ? [sphere] : [];
+  });
+  if (spheres.length === 0) throw new Error(`${fileName} has no points with x, y and z.`);
+  if (spheres.length > MAX_IMPORTED_SPHERES) {
+    throw new Error(`${fileName} has ${spheres.length.toLocaleString()} points; the limit is ${MAX_IMPORTED_SPHERES.toLocaleString()}.`);
+  }
+
+  const taken = new Set(spheres.map(({ id }) => id));
+  const used = new Set<string>();
+  let next = 0;
+  spheres.forEach((sphere) => {
+    if (sphere.id === "" || used.has(sphere.id)) {
+      while (taken.has(`sphere-import-${next}`)) next++;
+      sphere.id = `sphere-import-${next}`;
+      taken.add(sphere.id);
+    }
+    used.add(sphere.id);
+  });
+  return spheres;
+}
+
+export const readPointCloudFile = async (file: File) => parsePointCloud(await file.text(), file.name);
+
+/**
+ * Centers imported spheres in the lattice box and scales them uniformly to fill it as far as a
+ * cubic grid of these dimensions would, so the field's reach, the focal bounds and the floor all
+ * fit them. A cubic lattice exported from the same dimensions comes back unchanged.
+ */
+export function fitToLattice(spheres: SphereData[], { rows, cols, layers, spacing }: MatrixConfig): SphereData[] {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  spheres.forEach(({ position }) => position.forEach((v, i) => {
+    min[i] = Math.min(min[i], v);
+    max[i] = Math.max(max[i], v);
+  }));
+  // Half-size of the cubic grid, kept from collapsing where the box is one sphere thick
+  const reach = [cols, rows, layers].map((count) => (Math.max(1, count - 1) * spacing) / 2);
+  const fits = reach
+    .map((r, i) => (max[i] - min[i] > 0 ? (r * 2) / (max[i] - min[i]) : Infinity))
+    .filter(Number.isFinite);
+  const factor = fits.length > 0 ? Math.min(...fits) : 1;
+  const center = min.map((v, i) => (v + max[i]) / 2);
+  return spheres.map((sphere) => ({
+    ...sphere,
+    position: sphere.position.map((v, i) => (v - center[i]) * factor) as SphereData["position"],
+  }));
+}
@@ -0,0 +1,114 @@
+import { SceneSettings } from "../types";
+import { downloadBlob } from "./download";
+import { sanitizeSceneSettings } from "./sceneSettings";
+
+export const PRESET_VERSION = 1;
+
+const STORAGE_KEY = "particle-bounce-house:presets";
+
+export interface ScenePreset {
+  version: number;
+  name: string;
+  savedAt: string;
+  settings: SceneSettings;
+}
+
+type RawPreset = Record<string, unknown>;
+
+// Upgrades a preset from the keyed version to the next one. Add an entry whenever a
+// parameter is renamed or restructured; newly added parameters need no migration since
+// sanitizeSceneSettings fills anything missing with its default.
+const MIGRATIONS: Record<number, (preset: RawPreset) => RawPreset> = {};
+
+export function createPreset(name: string, settings: SceneSettings): ScenePreset {
+  return {
+    version: PRESET_VERSION,
+    name: name.trim() || "Untitled",
+    savedAt: new Date().toISOString(),
+    settings,
+  };
+}
+
+/**
+ * Validates and upgrades a preset from any older version to the current format.
+ * Throws when the input is not recognisable as a preset at all.
+ */
+export function parsePreset(raw: unknown): ScenePreset {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Preset must be a JSON object.");
+  }
+  let preset = raw as RawPreset;
+  let version = typeof preset.version === "number" ? preset.version : 1;
+  if (version > PRESET_VERSION) {
+    throw new Error(`Preset version ${version} is newer than this app supports.`);
+  }
+  while (version < PRESET_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) preset = migrate(preset);
+    version++;
+  }
+
+  return {
+    version: PRESET_VERSION,
+    name: typeof preset.name === "string" && preset.name.trim() ? preset.name.trim() : "Imported",
+    savedAt: typeof preset.savedAt === "string" ? preset.savedAt : new Date().toISOString(),
+    settings: sanitizeSceneSettings(preset.settings),
+  };
+}
+
+export function loadPresetSlots(): ScenePreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((entry) => {
+      try {
+        return [parsePreset(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error("Failed to read presets:", error);
+    return [];
+  }
+}
+
+/**
+ * Saves a preset into its named slot, replacing any existing preset with the same name.
+ */
+export function savePresetSlot(preset: ScenePreset): ScenePreset[] {
+  const slots = [...loadPresetSlots().filter((p) => p.name !== preset.name), preset];
+  writeSlots(slots);
+  return slots;
+}
+
+export function deletePresetSlot(name: string): ScenePreset[] {
+  const slots = loadPresetSlots().filter((p) => p.name !== name);
+  writeSlots(slots);
+  return slots;
+}
+
+function writeSlots(slots: ScenePreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(slots));
+  } catch (error) {
+    console.error("Failed to save presets:", error);
+  }
+}
+
+export function downloadPreset(preset: ScenePreset) {
+  const blob = new Blob([JSON.stringify(preset, null, 2)], { type: "application/json" });
+  const fileName = `${preset.name.replace(/[^a-z0-9-_]+/gi, "-").toLowerCase() || "preset"}.json`;
+  downloadBlob(blob, fileName);
+}
+
+export async function readPresetFile(file: File): Promise<ScenePreset> {
+  const text = await file.text();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(`${file.name} is not valid JSON.`);
+  }
+  return parsePreset(raw);
+}
@@ -0,0 +1,145 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { Orientation, Primitive } from "../types";
+
+export const PRIMITIVES: { primitive: Primitive; label: string }[] = [
+  { primitive: "sphere", label: "Sphere" },
+  { primitive: "cube", label: "Cube" },
+  { primitive: "octahedron", label: "Octahedron" },
+  { primitive: "icosahedron", label: "Icosahedron" },
+  { primitive: "capsule", label: "Capsule" },
+  { primitive: "torus", label: "Torus" },
+  { primitive: "custom", label: "GLB Mesh" },
+];
+
+export const ORIENTATIONS: { orientation: Orientation; label: string }[] = [
+  { orientation: "fixed", label: "Fixed" },
+  { orientation: "focal", label: "Focal" },
+  { orientation: "gradient", label: "Gradient" },
+];
+
+// Dimensions shared by the meshes and their distance functions
+const CUBE_SIZE = 1.4;
+const CAPSULE_RADIUS = 0.55;
+const CAPSULE_LENGTH = 0.9;
+const TORUS_RADIUS = 0.72;
+const TORUS_TUBE = 0.28;
+// Inradius of the unit-circumradius icosahedron, and its face normals (one per opposite pair)
+const ICOSAHEDRON_INRADIUS = 0.7946544722917661;
+const PHI = (1 + Math.sqrt(5)) / 2;
+const ICOSAHEDRON_NORMALS = [
+  [1, 1, 1], [1, 1, -1], [1, -1, 1], [-1, 1, 1],
+  [0, PHI, 1 / PHI], [0, PHI, -1 / PHI],
+  [1 / PHI, 0, PHI], [-1 / PHI, 0, PHI],
+  [PHI, 1 / PHI, 0], [PHI, -1 / PHI, 0],
+].map(([x, y, z]) => [x / Math.sqrt(3), y / Math.sqrt(3), z / Math.sqrt(3)]);
+
+/**
+ * Builds the instance geometry. Every primitive fits roughly inside the unit sphere and
+ * has its long or symmetry axis on +Y, which is the axis orientation and stretch act on.
+ * `custom` uses the loaded mesh (cloned, so the caller may dispose it) or falls back to a sphere.
+ */
+export function createPrimitiveGeometry(
+  primitive: Primitive,
+  segments: number,
+  custom: THREE.BufferGeometry | null
+): THREE.BufferGeometry {
+  switch (primitive) {
+    case "cube":
+      return new THREE.BoxGeometry(CUBE_SIZE, CUBE_SIZE, CUBE_SIZE);
+    case "octahedron":
+      return new THREE.OctahedronGeometry(1);
+    case "icosahedron":
+      return new THREE.IcosahedronGeometry(1);
+    case "capsule":
+      return new THREE.CapsuleGeometry(CAPSULE_RADIUS, CAPSULE_LENGTH, Math.max(2, Math.round(segments / 4)), segments);
+    case "torus":
+      return new THREE.TorusGeometry(TORUS_RADIUS, TORUS_TUBE, Math.max(3, Math.round(segments / 2)), segments).rotateX(Math.PI / 2);
+    case "custom":
+      if (custom) return custom.clone();
+      return new THREE.SphereGeometry(1, segments, segments);
+    case "sphere":
+    default:
+      return new THREE.SphereGeometry(1, segments, segments);
+  }
+}
+
+/** Signed distance from a point in primitive space to the surface, negative inside. */
+export type PrimitiveDistance = (x: number, y: number, z: number) => number;
+
+/**
+ * The ideal shape behind each primitive's mesh as a distance function, in the same space and
+ * orientation as createPrimitiveGeometry. Null for `custom`: a loaded mesh has no closed form.
+ */
+export function primitiveDistance(primitive: Primitive): PrimitiveDistance | null {
+  switch (primitive) {
+    case "cube":
+      return (x, y, z) => {
+        const qx = Math.abs(x) - CUBE_SIZE / 2;
+        const qy = Math.abs(y) - CUBE_SIZE / 2;
+        const qz = Math.abs(z) - CUBE_SIZE / 2;
+        return Math.hypot(Math.max(qx, 0), Math.max(qy, 0), Math.max(qz, 0)) + Math.min(Math.max(qx, qy, qz), 0);
+      };
+    case "octahedron":
+      return (x, y, z) => {
+        const p = [Math.abs(x), Math.abs(y), Math.abs(z)];
+        const m = p[0] + p[1] + p[2] - 1;
+        // Near an edge or corner measure to that edge (rotated so it lies in the yz plane), else to the face
+        const first = [0, 1, 2].find((axis) => 3 * p[axis] < m);
+        if (first === undefined) return m / Math.sqrt(3);
+        const [qx, qy, qz] = [p[first], p[(first + 1) % 3], p[(first + 2) % 3]];
+        const k = Math.min(1, Math.max(0, 0.5 * (qz - qy + 1)));
+        return Math.hypot(qx, qy - 1 + k, qz - k);
+      };
+    case "icosahedron":
+      // Furthest face plane: exact inside and on the surface, a slight underestimate off the corners
+      return (x, y, z) =>
+        Math.max(...ICOSAHEDRON_NORMALS.map(([nx, ny, nz]) => Math.abs(x * nx + y * ny + z * nz))) - ICOSAHEDRON_INRADIUS;
+    case "capsule":
+      return (x, y, z) =>
+        Math.hypot(x, y - Math.min(CAPSULE_LENGTH / 2, Math.max(-CAPSULE_LENGTH / 2, y)), z) - CAPSULE_RADIUS;
+    case "torus":
+      return (x, y, z) => Math.hypot(Math.hypot(x, z) - TORUS_RADIUS, y) - TORUS_TUBE;
+    case "custom":
+      return null;
+    case "sphere":
+    default:
+      return (x, y, z) => Math.hypot(x, y, z) - 1;
+  }
+}
+
+/**
+ * Reads a GLB file and merges all of its meshes (with their transforms) into one
+ * geometry, centered and scaled to fit the unit sphere.
+ */
+export async function loadGlbGeometry(file: File): Promise<THREE.BufferGeometry> {
+  const buffer = await file.arrayBuffer();
+  const gltf = await new GLTFLoader().parseAsync(buffer, "");
+  gltf.scene.updateMatrixWorld(true);
+
+  const parts: THREE.BufferGeometry[] = [];
+  gltf.scene.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const geometry = (object.geometry as THREE.BufferGeometry).clone();
+    geometry.applyMatrix4(object.matrixWorld);
+    // Keep only what the instanced material reads so differing attribute sets still merge
+    for (const name of Object.keys(geometry.attributes)) {
+      if (name !== "position" && name !== "normal") geometry.deleteAttribute(name);
+    }
+    geometry.morphAttributes = {};
+    if (!geometry.getAttribute("normal")) geometry.computeVertexNormals();
+    parts.push(geometry.index ? geometry.toNonIndexed() : geometry);
+  });
+  if (parts.length === 0) throw new Error(`"${file.name}" contains no meshes.`);
+
+  const merged = mergeGeometries(parts);
+  parts.forEach((part) => part.dispose());
+  if (!merged) throw new Error(`Could not merge the meshes in "${file.name}".`);
+
+  merged.computeBoundingSphere();
+  const sphere = merged.boundingSphere!;
+  merged.translate(-sphere.center.x, -sphere.center.y, -sphere.center.z);
+  if (sphere.radius > 0) merged.scale(1 / sphere.radius, 1 / sphere.radius, 1 / sphere.radius);
+  return merged;
+}
@@ -0,0 +1,61 @@
+/**
+ * Rendering cost levels the auto-quality governor steps through, from best to cheapest.
+ * Sphere segments are capped (never raised above the user's own setting).
+ */
+export interface QualityTier {
+  label: string;
+  maxSegments: number;
+  dpr: number;
+  contactShadows: boolean;
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { label: "High", maxSegments: 48, dpr: 1.5, contactShadows: true },
+  { label: "Medium", maxSegments: 16, dpr: 1.25, contactShadows: true },
+  { label: "Low", maxSegments: 10, dpr: 1, contactShadows: false },
+  { label: "Minimal", maxSegments: 6, dpr: 0.75, contactShadows: false },
+];
+
+export const QUALITY_TARGETS = [30, 60];
+
+/**
+ * Averages over one sampling window. `workMs` is main-thread time from the first frame
+ * callback to the end of rendering, which stays meaningful when the frame rate is vsync-capped.
+ */
+export interface PerfSample {
+  fps: number;
+  frameMs: number;
+  workMs: number;
+  drawCalls: number;
+  triangles: number;
+}
+
+export const PERF_SAMPLE_MS = 500;
+
+export interface GovernorState {
+  tier: number;
+  slowSamples: number;
+  fastSamples: number;
+}
+
+export const INITIAL_GOVERNOR: GovernorState = { tier: 0, slowSamples: 0, fastSamples: 0 };
+
+// Drop a tier after ~1s over budget; climb back only after ~3s of clear headroom.
+const SLOW_SAMPLES = 2;
+const FAST_SAMPLES = 6;
+
+export function governQuality(state: GovernorState, sample: PerfSample, targetFps: number): GovernorState {
+  const budget = 1000 / targetFps;
+  const slow = sample.frameMs > budget * 1.1;
+  const fast = sample.frameMs <= budget * 1.05 && sample.workMs < budget * 0.5;
+  const slowSamples = slow ? state.slowSamples + 1 : 0;
+  const fastSamples = fast ? state.fastSamples + 1 : 0;
+
+  if (slowSamples >= SLOW_SAMPLES && state.tier < QUALITY_TIERS.length - 1) {
+    return { tier: state.tier + 1, slowSamples: 0, fastSamples: 0 };
+  }
+  if (fastSamples >= FAST_SAMPLES && state.tier > 0) {
+    return { tier: state.tier - 1, slowSamples: 0, fastSamples: 0 };
+  }
+  return { tier: state.tier, slowSamples, fastSamples };
+}
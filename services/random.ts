@@ -0,0 +1,35 @@
+/**
+ * Small deterministic PRNG (mulberry32). Same seed, same sequence on every machine.
+ */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derives an independent sub-seed so each consumer (e.g. one focal point's phase)
+ * gets its own stream and is unaffected by how many values other consumers draw.
+ */
+export function deriveSeed(seed: number, ...keys: (number | string)[]): number {
+  let h = (seed ^ 0x9e3779b9) >>> 0;
+  for (const key of keys) {
+    const text = String(key);
+    for (let i = 0; i < text.length; i++) {
+      h = Math.imul(h ^ text.charCodeAt(i), 0x85ebca6b) >>> 0;
+      h = (h ^ (h >>> 13)) >>> 0;
+    }
+    h = Math.imul(h ^ 0x2c, 0xc2b2ae35) >>> 0;
+  }
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+export const MAX_SEED = 999999;
+
+// The only non-deterministic source: picking a fresh seed on request.
+export const rerollSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
@@ -0,0 +1,358 @@
+import { BlendMode, CenterStyle, CombineMode, CurvePoint, FocalMotion, GradientStop, MatrixConfig, PhysicsSettings, SceneSettings, Vec3 } from "../types";
+import { CURVE_SEGMENTS, MAX_CURVE_POINTS, classicCurve } from "./curve";
+import { AXES, COMBINE_MODES, DISTANCE_METRICS } from "./field";
+import { GRADIENT_DRIVERS, MAX_GRADIENT_STOPS } from "./gradient";
+import { LATTICE_LAYOUTS } from "./lattice";
+import { MOTION_KINDS, MOTION_MODELS, createFocalMotion } from "./motion";
+import { PHYSICS_RANGES, createPhysicsSettings } from "./physics";
+import { ORIENTATIONS, PRIMITIVES } from "./primitives";
+import { MAX_SEED } from "./random";
+
+export const MAX_MATRIX_DIM = 64;
+export const MAX_ENGINE_CENTERS = 3;
+export const MAX_PATH_POINTS = 16;
+
+export type NumericSetting = {
+  [K in keyof SceneSettings]: SceneSettings[K] extends number ? K : never;
+}[keyof SceneSettings];
+
+export const DEFAULT_MATRIX: MatrixConfig = { rows: 12, cols: 12, layers: 12, spacing: 1.2, layout: 'cubic' };
+
+export const createCenterStyle = (): CenterStyle => ({ curve: null, hues: null, radius: 1, strength: 1 });
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  p1x: 0.33,
+  p1y: 0.8,
+  p2x: 0.66,
+  p2y: 0.2,
+  curveStartY: 1,
+  curveEndY: 0,
+  curvePoints: null,
+  minScale: 0.03,
+  maxScale: 2.0,
+  hue: 220,
+  hue2: 340,
+  gradient: null,
+  gradientDriver: 'distance',
+  speed: 3.0,
+  engineCenters: 1,
+  engineRandomness: 0,
+  seed: 2025,
+  boundScale: 2,
+  combineMode: 'min',
+  blendRadius: 0.2,
+  negativeCenters: Array(MAX_ENGINE_CENTERS).fill(false),
+  centerStyles: Array.from({ length: MAX_ENGINE_CENTERS }, () => createCenterStyle()),
+  distanceMetric: 'euclidean',
+  metricAxis: 'y',
+  axisScaleX: 1,
+  axisScaleY: 1,
+  axisScaleZ: 1,
+  blendMode: 'normal',
+  primitive: 'sphere',
+  orientation: 'fixed',
+  stretch: 0,
+  opacity: 0.5,
+  lineOpacity: 0,
+  sphereSegments: 16,
+  ambientIntensity: 1,
+  matrix: DEFAULT_MATRIX,
+  motions: Array.from({ length: MAX_ENGINE_CENTERS }, () => createFocalMotion()),
+  physics: null,
+};
+
+/** Valid range of every numeric setting; integer settings are rounded. */
+export const NUMERIC_RANGES: Record<NumericSetting, { min: number; max: number; integer?: boolean }> = {
+  p1x: { min: 0.01, max: 0.99 },
+  p1y: { min: 0, max: 1 },
+  p2x: { min: 0.01, max: 0.99 },
+  p2y: { min: 0, max: 1 },
+  curveStartY: { min: 0, max: 1 },
+  curveEndY: { min: 0, max: 1 },
+  minScale: { min: 0.01, max: 2 },
+  maxScale: { min: 0.01, max: 2 },
+  hue: { min: 0, max: 360 },
+  hue2: { min: 0, max: 360 },
+  speed: { min: 0.1, max: 8 },
+  engineCenters: { min: 1, max: MAX_ENGINE_CENTERS, integer: true },
+  engineRandomness: { min: 0, max: 100, integer: true },
+  seed: { min: 0, max: MAX_SEED, integer: true },
+  boundScale: { min: 1, max: 3 },
+  blendRadius: { min: 0.01, max: 1 },
+  axisScaleX: { min: 0.25, max: 4 },
+  axisScaleY: { min: 0.25, max: 4 },
+  axisScaleZ: { min: 0.25, max: 4 },
+  stretch: { min: 0, max: 2 },
+  opacity: { min: 0, max: 1 },
+  lineOpacity: { min: 0, max: 0.5 },
+  sphereSegments: { min: 4, max: 48, integer: true },
+  ambientIntensity: { min: 0, max: 2 },
+};
+
+const BLEND_MODES: BlendMode[] = ['normal', 'additive'];
+
+// Returns the value when it is one of the allowed options, otherwise the fallback.
+const readOption = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns the value clamped to [min, max], or the fallback when it is not a finite number.
+const readNumber = (value: unknown, fallback: number, min: number, max: number, integer = false) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  const clamped = Math.min(max, Math.max(min, value));
+  return integer ? Math.round(clamped) : clamped;
+};
+
+/** Clamps a value into a numeric setting's range (rounding integer settings). */
+export const clampSetting = (key: NumericSetting, value: unknown) => {
+  const { min, max, integer } = NUMERIC_RANGES[key];
+  return readNumber(value, DEFAULT_SCENE_SETTINGS[key], min, max, integer);
+};
+
+/** Smallest gap the scale range and the Bezier handles' x values keep, as their sliders do. */
+export const MIN_PAIR_GAP = 0.01;
+
+// Pairs whose first value must stay below the second
+const ORDERED_PAIRS: [NumericSetting, NumericSetting][] = [
+  ['minScale', 'maxScale'],
+  ['p1x', 'p2x'],
+];
+
+/**
+ * Clamps every numeric setting into its range and keeps the ordered pairs (scale range,
+ * Bezier handle x) apart by MIN_PAIR_GAP, meeting around their midpoint where they cross.
+ * For values that were never edited through the sliders, such as interpolated keyframes.
+ */
+export function orderSettings(settings: SceneSettings): SceneSettings {
+  const next = { ...settings };
+  (Object.keys(NUMERIC_RANGES) as NumericSetting[]).forEach((key) => {
+    next[key] = clampSetting(key, next[key]);
+  });
+  ORDERED_PAIRS.forEach(([low, high]) => {
+    if (next[high] - next[low] >= MIN_PAIR_GAP) return;
+    const floor = NUMERIC_RANGES[low].min;
+    const ceiling = NUMERIC_RANGES[high].max;
+    const mid = Math.min(ceiling - MIN_PAIR_GAP / 2, Math.max(floor + MIN_PAIR_GAP / 2, (next[low] + next[high]) / 2));
+    next[low] = mid - MIN_PAIR_GAP / 2;
+    next[high] = mid + MIN_PAIR_GAP / 2;
+  });
+  return next;
+}
+
+/**
+ * Sets one numeric setting the way its slider would: clamped into its range and, for an ordered
+ * pair, kept MIN_PAIR_GAP short of its partner.
+ */
+export function withSetting(settings: SceneSettings, key: NumericSetting, value: number): SceneSettings {
+  let bounded = value;
+  ORDERED_PAIRS.forEach(([low, high]) => {
+    if (key === low) bounded = Math.min(bounded, settings[high] - MIN_PAIR_GAP);
+    if (key === high) bounded = Math.max(bounded, settings[low] + MIN_PAIR_GAP);
+  });
+  return orderSettings({ ...settings, [key]: bounded });
+}
+
+const readMatrix = (value: unknown): MatrixConfig => {
+  if (!isRecord(value)) return DEFAULT_MATRIX;
+  return {
+    rows: readNumber(value.rows, DEFAULT_MATRIX.rows, 1, MAX_MATRIX_DIM, true),
+    cols: readNumber(value.cols, DEFAULT_MATRIX.cols, 1, MAX_MATRIX_DIM, true),
+    layers: readNumber(value.layers, DEFAULT_MATRIX.layers, 1, MAX_MATRIX_DIM, true),
+    spacing: readNumber(value.spacing, DEFAULT_MATRIX.spacing, 0.5, 3),
+    layout: readOption(value.layout, LATTICE_LAYOUTS.map(l => l.layout), DEFAULT_MATRIX.layout),
+  };
+};
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === "number" && Number.isFinite(n));
+
+const readMotion = (value: unknown): FocalMotion => {
+  if (!isRecord(value) || !MOTION_KINDS.includes(value.kind as FocalMotion["kind"])) return createFocalMotion();
+  const motion = createFocalMotion(value.kind as FocalMotion["kind"]);
+  const params = isRecord(value.params) ? value.params : {};
+  MOTION_MODELS[motion.kind].params.forEach((spec) => {
+    motion.params[spec.key] = readNumber(params[spec.key], spec.defaultValue, spec.min, spec.max);
+  });
+  if (Array.isArray(value.path)) {
+    const path = value.path
+      .filter(isVec3)
+      .slice(0, MAX_PATH_POINTS)
+      .map((p) => p.map((n) => Math.min(1, Math.max(-1, n))) as Vec3);
+    if (path.length >= 2) motion.path = path;
+  }
+  return motion;
+};
+
+const readFlags = (value: unknown): boolean[] => {
+  const list = Array.isArray(value) ? value : [];
+  return Array.from({ length: MAX_ENGINE_CENTERS }, (_, i) => list[i] === true);
+};
+
+const readStop = (value: unknown): GradientStop | null => {
+  if (!isRecord(value)) return null;
+  const stop = {
+    position: readNumber(value.position, NaN, 0, 1),
+    hue: readNumber(value.hue, NaN, 0, 360),
+    saturation: readNumber(value.saturation, NaN, 0, 1),
+    value: readNumber(value.value, NaN, 0, 1),
+    alpha: readNumber(value.alpha, 1, 0, 1),
+  };
+  return Object.values(stop).every(Number.isFinite) ? stop : null;
+};
+
+// A gradient needs at least two valid stops; anything less falls back to the two hues
+const readGradient = (value: unknown): GradientStop[] | null => {
+  if (!Array.isArray(value)) return null;
+  const stops = value
+    .map(readStop)
+    .filter((stop): stop is GradientStop => stop !== null)
+    .slice(0, MAX_GRADIENT_STOPS);
+  return stops.length >= 2 ? stops : null;
+};
+
+const readCurvePoint = (value: unknown): CurvePoint | null => {
+  if (!isRecord(value)) return null;
+  const handles = Array.isArray(value.handles) && value.handles.length === 4
+    ? value.handles.map((h) => readNumber(h, NaN, 0, 1))
+    : [];
+  const x = readNumber(value.x, NaN, 0, 1);
+  const y = readNumber(value.y, NaN, 0, 1);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  return {
+    x,
+    y,
+    segment: readOption(value.segment, CURVE_SEGMENTS.map(c => c.segment), 'bezier'),
+    handles: handles.length === 4 && handles.every(Number.isFinite)
+      ? [handles[0], handles[1], handles[2], handles[3]]
+      : [0.5, y, 0.5, y],
+  };
+};
+
+// Sorted by x with the ends pinned to the center and the edge; fewer than two valid
+// points fall back to the classic curve
+const readCurvePoints = (value: unknown): CurvePoint[] | null => {
+  if (!Array.isArray(value)) return null;
+  const points = value
+    .map(readCurvePoint)
+    .filter((point): point is CurvePoint => point !== null)
+    .slice(0, MAX_CURVE_POINTS)
+    .sort((a, b) => a.x - b.x);
+  if (points.length < 2) return null;
+  points[0].x = 0;
+  points[points.length - 1].x = 1;
+  return points;
+};
+
+// Per-center curves were once stored as a single Bezier ({ p1x, ..., endY })
+const readCurve = (value: unknown): CurvePoint[] | null => {
+  if (Array.isArray(value)) return readCurvePoints(value);
+  if (!isRecord(value)) return null;
+  const p1x = readNumber(value.p1x, NaN, 0.01, 0.99);
+  const p2x = readNumber(value.p2x, NaN, 0.01, 0.99);
+  const p1y = readNumber(value.p1y, NaN, 0, 1);
+  const p2y = readNumber(value.p2y, NaN, 0, 1);
+  const startY = readNumber(value.startY, NaN, 0, 1);
+  const endY = readNumber(value.endY, NaN, 0, 1);
+  const valid = [p1x, p1y, p2x, p2y, startY, endY].every(Number.isFinite) && p1x < p2x;
+  return valid ? classicCurve(p1x, p1y, p2x, p2y, startY, endY) : null;
+};
+
+const readCenterStyle = (value: unknown): CenterStyle => {
+  const d = createCenterStyle();
+  if (!isRecord(value)) return d;
+  const hues = Array.isArray(value.hues) && value.hues.length === 2
+    ? value.hues.map((h) => readNumber(h, NaN, 0, 360))
+    : [];
+  return {
+    curve: readCurve(value.curve),
+    hues: hues.length === 2 && hues.every(Number.isFinite) ? [hues[0], hues[1]] : null,
+    radius: readNumber(value.radius, d.radius, 0.1, 3),
+    strength: readNumber(value.strength, d.strength, 0, 3),
+  };
+};
+
+const readCenterStyles = (value: unknown): CenterStyle[] => {
+  const list = Array.isArray(value) ? value : [];
+  return Array.from({ length: MAX_ENGINE_CENTERS }, (_, i) => readCenterStyle(list[i]));
+};
+
+const readMotions = (value: unknown): FocalMotion[] => {
+  const list = Array.isArray(value) ? value : [];
+  return Array.from({ length: MAX_ENGINE_CENTERS }, (_, i) => readMotion(list[i]));
+};
+
+// Anything but an object means physics is off; inside one, each value falls back on its own
+const readPhysics = (value: unknown): PhysicsSettings | null => {
+  if (!isRecord(value)) return null;
+  const d = createPhysicsSettings();
+  const number = (key: keyof typeof PHYSICS_RANGES) =>
+    readNumber(value[key], d[key], PHYSICS_RANGES[key].min, PHYSICS_RANGES[key].max);
+  return {
+    stiffness: number('stiffness'),
+    damping: number('damping'),
+    gravity: number('gravity'),
+    bounce: number('bounce'),
+    force: number('force'),
+    forceCurve: readCurvePoints(value.forceCurve) ?? d.forceCurve,
+  };
+};
+
+/**
+ * Builds a complete SceneSettings from untrusted input (preset files, URLs, storage).
+ * Each field is validated on its own, so missing or malformed values fall back to their
+ * defaults without discarding the rest of the settings.
+ */
+export function sanitizeSceneSettings(raw: unknown): SceneSettings {
+  const d = DEFAULT_SCENE_SETTINGS;
+  if (!isRecord(raw)) return d;
+
+  const minScale = clampSetting('minScale', raw.minScale);
+  const maxScale = clampSetting('maxScale', raw.maxScale);
+  const p1x = clampSetting('p1x', raw.p1x);
+  const p2x = clampSetting('p2x', raw.p2x);
+  const scalesValid = minScale < maxScale;
+  const handlesValid = p1x < p2x;
+
+  return {
+    p1x: handlesValid ? p1x : d.p1x,
+    p1y: clampSetting('p1y', raw.p1y),
+    p2x: handlesValid ? p2x : d.p2x,
+    p2y: clampSetting('p2y', raw.p2y),
+    curveStartY: clampSetting('curveStartY', raw.curveStartY),
+    curveEndY: clampSetting('curveEndY', raw.curveEndY),
+    curvePoints: readCurvePoints(raw.curvePoints),
+    minScale: scalesValid ? minScale : d.minScale,
+    maxScale: scalesValid ? maxScale : d.maxScale,
+    hue: clampSetting('hue', raw.hue),
+    hue2: clampSetting('hue2', raw.hue2),
+    gradient: readGradient(raw.gradient),
+    gradientDriver: readOption(raw.gradientDriver, GRADIENT_DRIVERS.map(g => g.driver), d.gradientDriver),
+    speed: clampSetting('speed', raw.speed),
+    engineCenters: clampSetting('engineCenters', raw.engineCenters),
+    engineRandomness: clampSetting('engineRandomness', raw.engineRandomness),
+    seed: clampSetting('seed', raw.seed),
+    boundScale: clampSetting('boundScale', raw.boundScale),
+    combineMode: readOption(raw.combineMode, COMBINE_MODES.map(c => c.mode), d.combineMode),
+    blendRadius: clampSetting('blendRadius', raw.blendRadius),
+    negativeCenters: readFlags(raw.negativeCenters),
+    centerStyles: readCenterStyles(raw.centerStyles),
+    distanceMetric: readOption(raw.distanceMetric, DISTANCE_METRICS.map(m => m.metric), d.distanceMetric),
+    metricAxis: readOption(raw.metricAxis, AXES, d.metricAxis),
+    axisScaleX: clampSetting('axisScaleX', raw.axisScaleX),
+    axisScaleY: clampSetting('axisScaleY', raw.axisScaleY),
+    axisScaleZ: clampSetting('axisScaleZ', raw.axisScaleZ),
+    blendMode: readOption(raw.blendMode, BLEND_MODES, d.blendMode),
+    primitive: readOption(raw.primitive, PRIMITIVES.map(p => p.primitive), d.primitive),
+    orientation: readOption(raw.orientation, ORIENTATIONS.map(o => o.orientation), d.orientation),
+    stretch: clampSetting('stretch', raw.stretch),
+    opacity: clampSetting('opacity', raw.opacity),
+    lineOpacity: clampSetting('lineOpacity', raw.lineOpacity),
+    sphereSegments: clampSetting('sphereSegments', raw.sphereSegments),
+    ambientIntensity: clampSetting('ambientIntensity', raw.ambientIntensity),
+    matrix: readMatrix(raw.matrix),
+    motions: readMotions(raw.motions),
+    physics: readPhysics(raw.physics),
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCENE_SETTINGS } from "./sceneSettings";
+import { advancePlayhead, AnimatableParam, applyTimeline, DEFAULT_TIMELINE, evaluateTrack, setKeyframe, Timeline } from "./timeline";
+
+// A timeline of linear keyframes, each given as [param, time, value]
+const keyed = (...keys: [AnimatableParam, number, number][]) =>
+  keys.reduce<Timeline>((timeline, [param, time, value]) => setKeyframe(timeline, param, time, value, "linear"), DEFAULT_TIMELINE);
+
+describe("evaluateTrack", () => {
+  it("interpolates between keyframes and holds the ends", () => {
+    const [track] = keyed(["speed", 1, 2], ["speed", 3, 6]).tracks;
+    expect(evaluateTrack(track, 0)).toBe(2);
+    expect(evaluateTrack(track, 2)).toBe(4);
+    expect(evaluateTrack(track, 5)).toBe(6);
+  });
+
+  it("applies the easing of the segment's first keyframe", () => {
+    const timeline = setKeyframe(setKeyframe(DEFAULT_TIMELINE, "opacity", 0, 0, "step"), "opacity", 1, 1);
+    expect(evaluateTrack(timeline.tracks[0], 0.99)).toBe(0);
+    const eased = setKeyframe(setKeyframe(DEFAULT_TIMELINE, "opacity", 0, 0, "easeIn"), "opacity", 1, 1);
+    expect(evaluateTrack(eased.tracks[0], 0.5)).toBeCloseTo(0.125);
+  });
+
+  it("turns hues the short way around the wheel", () => {
+    const [track] = keyed(["hue", 0, 350], ["hue", 1, 10]).tracks;
+    expect(evaluateTrack(track, 0.25)).toBeCloseTo(355);
+    expect(evaluateTrack(track, 0.75)).toBeCloseTo(5);
+  });
+
+  it("replaces a keyframe at the same time", () => {
+    const [track] = keyed(["speed", 1, 2], ["speed", 1, 5]).tracks;
+    expect(track.keyframes.map((k) => k.value)).toEqual([5]);
+  });
+});
+
+describe("applyTimeline", () => {
+  it("keeps keyed pairs apart where they cross mid-tween", () => {
+    const timeline = keyed(["minScale", 0, 0.2], ["minScale", 1, 1.8], ["maxScale", 0, 1.8], ["maxScale", 1, 0.2]);
+    const settings = applyTimeline(DEFAULT_SCENE_SETTINGS, timeline, 0.5);
+    expect(settings.maxScale - settings.minScale).toBeCloseTo(0.01);
+  });
+
+  it("returns the settings untouched without tracks", () => {
+    expect(applyTimeline(DEFAULT_SCENE_SETTINGS, DEFAULT_TIMELINE, 3)).toBe(DEFAULT_SCENE_SETTINGS);
+  });
+});
+
+describe("advancePlayhead", () => {
+  it("wraps when looping and stops at the end otherwise", () => {
+    expect(advancePlayhead({ ...DEFAULT_TIMELINE, duration: 4 }, 3.5, 1).time).toBeCloseTo(0.5);
+    expect(advancePlayhead({ ...DEFAULT_TIMELINE, duration: 4, loop: false }, 3.5, 1)).toEqual({ time: 4, playing: false });
+  });
+});
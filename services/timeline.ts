@@ -0,0 +1,178 @@
+import { SceneSettings } from "../types";
+import { NumericSetting, orderSettings } from "./sceneSettings";
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut" | "step";
+
+export const EASINGS: Easing[] = ["linear", "easeIn", "easeOut", "easeInOut", "step"];
+
+/**
+ * A keyed value. Its easing shapes the segment from this keyframe to the next one.
+ */
+export interface Keyframe {
+  id: string;
+  time: number;
+  value: number;
+  easing: Easing;
+}
+
+export interface TimelineTrack {
+  param: AnimatableParam;
+  keyframes: Keyframe[];
+}
+
+export interface Timeline {
+  duration: number;
+  loop: boolean;
+  tracks: TimelineTrack[];
+}
+
+// Integer settings that rebuild geometry or state are deliberately not animatable.
+export type AnimatableParam = Exclude<NumericSetting, "engineCenters" | "sphereSegments" | "seed">;
+
+export const ANIMATABLE_PARAMS: { param: AnimatableParam; label: string }[] = [
+  { param: "speed", label: "Speed" },
+  { param: "hue", label: "Center Hue" },
+  { param: "hue2", label: "Distance Hue" },
+  { param: "minScale", label: "Min Scale" },
+  { param: "maxScale", label: "Max Scale" },
+  { param: "p1x", label: "Handle 1 X" },
+  { param: "p1y", label: "Handle 1 Y" },
+  { param: "p2x", label: "Handle 2 X" },
+  { param: "p2y", label: "Handle 2 Y" },
+  { param: "curveStartY", label: "Curve Center" },
+  { param: "curveEndY", label: "Curve Edge" },
+  { param: "opacity", label: "Opacity" },
+  { param: "lineOpacity", label: "Line Opacity" },
+  { param: "stretch", label: "Stretch" },
+  { param: "boundScale", label: "Bounds Area" },
+  { param: "blendRadius", label: "Blend Radius" },
+  { param: "axisScaleX", label: "Axis Scale X" },
+  { param: "axisScaleY", label: "Axis Scale Y" },
+  { param: "axisScaleZ", label: "Axis Scale Z" },
+  { param: "engineRandomness", label: "Randomness" },
+  { param: "ambientIntensity", label: "Ambient" },
+];
+
+export const DEFAULT_TIMELINE: Timeline = { duration: 10, loop: true, tracks: [] };
+
+const EASING_FNS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  step: () => 0,
+};
+
+// Hues are angles: keyed values tween the short way around the color wheel
+const HUE_PARAMS: ReadonlySet<AnimatableParam> = new Set<AnimatableParam>(["hue", "hue2"]);
+
+const hueDelta = (from: number, to: number) => ((((to - from) % 360) + 540) % 360) - 180;
+
+let keyframeCounter = 0;
+const nextKeyframeId = () => `kf-${Date.now().toString(36)}-${keyframeCounter++}`;
+
+/**
+ * Samples a single track at the given time. Before the first and after the last
+ * keyframe the nearest value is held. Hue tracks take the shorter arc and wrap into [0, 360).
+ */
+export function evaluateTrack(track: TimelineTrack, time: number): number | undefined {
+  const frames = track.keyframes;
+  if (frames.length === 0) return undefined;
+  if (time <= frames[0].time) return frames[0].value;
+  const last = frames[frames.length - 1];
+  if (time >= last.time) return last.value;
+
+  for (let i = 0; i < frames.length - 1; i++) {
+    const a = frames[i];
+    const b = frames[i + 1];
+    if (time < b.time) {
+      const span = b.time - a.time;
+      const u = span > 0 ? (time - a.time) / span : 1;
+      const eased = EASING_FNS[a.easing](u);
+      if (!HUE_PARAMS.has(track.param)) return a.value + (b.value - a.value) * eased;
+      const hue = a.value + hueDelta(a.value, b.value) * eased;
+      return ((hue % 360) + 360) % 360;
+    }
+  }
+  return last.value;
+}
+
+/**
+ * Returns the interpolated value of every keyed parameter at the given time.
+ */
+export function evaluateTimeline(timeline: Timeline, time: number): Partial<Record<AnimatableParam, number>> {
+  const values: Partial<Record<AnimatableParam, number>> = {};
+  timeline.tracks.forEach((track) => {
+    const value = evaluateTrack(track, time);
+    if (value !== undefined) values[track.param] = value;
+  });
+  return values;
+}
+
+/**
+ * Overlays the keyed parameters at the given time on `settings`. Tracks are interpolated one by
+ * one, so the result is clamped and re-ordered like slider input: a scale range or pair of
+ * Bezier handles keyed across each other never crosses mid-tween.
+ */
+export const applyTimeline = (settings: SceneSettings, timeline: Timeline, time: number): SceneSettings =>
+  timeline.tracks.length === 0 ? settings : orderSettings({ ...settings, ...evaluateTimeline(timeline, time) });
+
+/**
+ * Adds a keyframe to a parameter's track, replacing one already at (nearly) the same time.
+ */
+export function setKeyframe(
+  timeline: Timeline,
+  param: AnimatableParam,
+  time: number,
+  value: number,
+  easing: Easing = "easeInOut"
+): Timeline {
+  const existing = timeline.tracks.find((t) => t.param === param);
+  const others = (existing?.keyframes ?? []).filter((k) => Math.abs(k.time - time) > 1e-3);
+  const keyframes = [...others, { id: nextKeyframeId(), time, value, easing }].sort((a, b) => a.time - b.time);
+  const track: TimelineTrack = { param, keyframes };
+  return {
+    ...timeline,
+    tracks: existing
+      ? timeline.tracks.map((t) => (t.param === param ? track : t))
+      : [...timeline.tracks, track],
+  };
+}
+
+export function updateKeyframe(timeline: Timeline, id: string, patch: Partial<Omit<Keyframe, "id">>): Timeline {
+  return {
+    ...timeline,
+    tracks: timeline.tracks.map((track) => ({
+      ...track,
+      keyframes: track.keyframes
+        .map((k) => (k.id === id ? { ...k, ...patch } : k))
+        .sort((a, b) => a.time - b.time),
+    })),
+  };
+}
+
+/**
+ * Removes a keyframe, dropping its track once the track is empty.
+ */
+export function removeKeyframe(timeline: Timeline, id: string): Timeline {
+  return {
+    ...timeline,
+    tracks: timeline.tracks
+      .map((track) => ({ ...track, keyframes: track.keyframes.filter((k) => k.id !== id) }))
+      .filter((track) => track.keyframes.length > 0),
+  };
+}
+
+export function removeTrack(timeline: Timeline, param: AnimatableParam): Timeline {
+  return { ...timeline, tracks: timeline.tracks.filter((t) => t.param !== param) };
+}
+
+/**
+ * Advances a playhead, wrapping when looping. Returns the new time and whether playback should continue.
+ */
+export function advancePlayhead(timeline: Timeline, time: number, delta: number): { time: number; playing: boolean } {
+  const next = time + delta;
+  if (next < timeline.duration) return { time: next, playing: true };
+  if (timeline.loop && timeline.duration > 0) return { time: next % timeline.duration, playing: true };
+  return { time: timeline.duration, playing: false };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { SceneSettings } from "../types";
+import { createFocalMotion } from "./motion";
+import { createPhysicsSettings } from "./physics";
+import { createPreset, parsePreset, PRESET_VERSION } from "./presetService";
+import { DEFAULT_SCENE_SETTINGS, MAX_ENGINE_CENTERS } from "./sceneSettings";
+import { decodeSceneHash, encodeSceneHash } from "./urlState";
+
+// Every kind of field the hash carries, at the precision it is written with
+const edited: SceneSettings = {
+  ...DEFAULT_SCENE_SETTINGS,
+  p1x: 0.25,
+  p2y: 0.125,
+  minScale: 0.2,
+  maxScale: 1.5,
+  hue: 12,
+  hue2: 190,
+  speed: 1.5,
+  engineCenters: 2,
+  seed: 42,
+  blendMode: "additive",
+  combineMode: "smooth",
+  distanceMetric: "chebyshev",
+  gradientDriver: "height",
+  negativeCenters: DEFAULT_SCENE_SETTINGS.negativeCenters.map((_, i) => i === 1),
+  matrix: { ...DEFAULT_SCENE_SETTINGS.matrix, cols: 6, spacing: 1.25, layout: "hcp" },
+  motions: DEFAULT_SCENE_SETTINGS.motions.map((motion, i) => (i === 0 ? createFocalMotion("orbit") : motion)),
+  gradient: [
+    { position: 0, hue: 10, saturation: 0.8, value: 1, alpha: 1 },
+    { position: 1, hue: 200, saturation: 0.5, value: 0.6, alpha: 0.4 },
+  ],
+  physics: createPhysicsSettings(),
+};
+
+describe("scene hash", () => {
+  it("writes nothing for the defaults and reads an empty hash as the defaults", () => {
+    expect(encodeSceneHash(DEFAULT_SCENE_SETTINGS)).toBe("");
+    expect(decodeSceneHash("")).toEqual(DEFAULT_SCENE_SETTINGS);
+  });
+
+  it("round-trips edited settings", () => {
+    expect(decodeSceneHash(`#${encodeSceneHash(edited)}`)).toEqual(edited);
+  });
+
+  it("falls back per value on malformed or out-of-range input", () => {
+    const settings = decodeSceneHash("h=abc&mx=1.2&n=99&cm=nope&fm=%7Bbroken");
+    expect(settings.hue).toBe(DEFAULT_SCENE_SETTINGS.hue);
+    expect(settings.maxScale).toBe(1.2);
+    expect(settings.engineCenters).toBe(MAX_ENGINE_CENTERS);
+    expect(settings.combineMode).toBe(DEFAULT_SCENE_SETTINGS.combineMode);
+    expect(settings.motions).toEqual(DEFAULT_SCENE_SETTINGS.motions);
+  });
+});
+
+describe("presets", () => {
+  it("round-trip through JSON", () => {
+    const preset = createPreset("Glow", edited);
+    expect(parsePreset(JSON.parse(JSON.stringify(preset)))).toEqual(preset);
+  });
+
+  it("reject non-objects and newer versions", () => {
+    expect(() => parsePreset([])).toThrow();
+    expect(() => parsePreset({ version: PRESET_VERSION + 1, settings: {} })).toThrow(/newer/);
+  });
+});
@@ -0,0 +1,179 @@
+import { MatrixConfig, SceneSettings } from "../types";
+import { DEFAULT_SCENE_SETTINGS, NumericSetting, sanitizeSceneSettings } from "./sceneSettings";
+
+// Short hash key and decimal precision for each numeric setting.
+const NUMBER_FIELDS: [NumericSetting, string, number][] = [
+  ["p1x", "a", 3],
+  ["p1y", "b", 3],
+  ["p2x", "c", 3],
+  ["p2y", "d", 3],
+  ["curveStartY", "cs", 3],
+  ["curveEndY", "ce", 3],
+  ["minScale", "mn", 2],
+  ["maxScale", "mx", 2],
+  ["hue", "h", 0],
+  ["hue2", "h2", 0],
+  ["speed", "v", 1],
+  ["engineCenters", "n", 0],
+  ["engineRandomness", "r", 0],
+  ["seed", "s", 0],
+  ["boundScale", "bs", 2],
+  ["blendRadius", "br", 2],
+  ["axisScaleX", "ax", 2],
+  ["axisScaleY", "ay", 2],
+  ["axisScaleZ", "az", 2],
+  ["stretch", "st", 2],
+  ["opacity", "o", 2],
+  ["lineOpacity", "lo", 2],
+  ["sphereSegments", "sg", 0],
+  ["ambientIntensity", "am", 2],
+];
+
+const BLEND_KEY = "bl";
+// Enumerated settings are written by name
+const OPTION_FIELDS: [
+  "combineMode" | "distanceMetric" | "metricAxis" | "gradientDriver" | "primitive" | "orientation",
+  string,
+][] = [
+  ["combineMode", "cm"],
+  ["distanceMetric", "dm"],
+  ["metricAxis", "da"],
+  ["gradientDriver", "gd"],
+  ["primitive", "pr"],
+  ["orientation", "or"],
+];
+// Negative centers as a string of 0/1 flags
+const NEGATIVE_KEY = "ng";
+const MATRIX_KEY = "m";
+const MOTIONS_KEY = "fm";
+const CENTER_STYLES_KEY = "ct";
+const GRADIENT_KEY = "gr";
+const CURVE_KEY = "cv";
+const PHYSICS_KEY = "ph";
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return String(Math.round(value * factor) / factor);
+};
+
+// Dimensions and spacing, then the layout unless it is the (implied) cubic grid
+const encodeMatrix = ({ cols, rows, layers, spacing, layout }: MatrixConfig) =>
+  [cols, rows, layers, round(spacing, 2), ...(layout === "cubic" ? [] : [layout])].join("x");
+
+/**
+ * Encodes settings as a compact hash fragment. Values equal to their defaults are omitted.
+ */
+export function encodeSceneHash(settings: SceneSettings): string {
+  const params = new URLSearchParams();
+  const d = DEFAULT_SCENE_SETTINGS;
+
+  NUMBER_FIELDS.forEach(([field, key, decimals]) => {
+    const value = round(settings[field], decimals);
+    if (value !== round(d[field], decimals)) params.set(key, value);
+  });
+  if (settings.blendMode !== d.blendMode) {
+    params.set(BLEND_KEY, settings.blendMode === "additive" ? "a" : "n");
+  }
+  OPTION_FIELDS.forEach(([field, key]) => {
+    if (settings[field] !== d[field]) params.set(key, settings[field]);
+  });
+  const negative = settings.negativeCenters.map((flag) => (flag ? "1" : "0")).join("");
+  if (negative !== d.negativeCenters.map((flag) => (flag ? "1" : "0")).join("")) params.set(NEGATIVE_KEY, negative);
+  const matrix = encodeMatrix(settings.matrix);
+  if (matrix !== encodeMatrix(d.matrix)) params.set(MATRIX_KEY, matrix);
+  const motions = JSON.stringify(settings.motions);
+  if (motions !== JSON.stringify(d.motions)) params.set(MOTIONS_KEY, motions);
+  if (settings.gradient) params.set(GRADIENT_KEY, JSON.stringify(settings.gradient));
+  if (settings.curvePoints) params.set(CURVE_KEY, JSON.stringify(settings.curvePoints));
+  if (settings.physics) params.set(PHYSICS_KEY, JSON.stringify(settings.physics));
+  const styles = JSON.stringify(settings.centerStyles);
+  if (styles !== JSON.stringify(d.centerStyles)) params.set(CENTER_STYLES_KEY, styles);
+  return params.toString();
+}
+
+/**
+ * Decodes a hash fragment produced by encodeSceneHash. Unknown keys are ignored and
+ * missing or invalid values fall back to their defaults individually.
+ */
+export function decodeSceneHash(hash: string): SceneSettings {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const raw: Record<string, unknown> = {};
+
+  NUMBER_FIELDS.forEach(([field, key]) => {
+    const value = params.get(key);
+    if (value !== null && value.trim() !== "") raw[field] = Number(value);
+  });
+  const blend = params.get(BLEND_KEY);
+  if (blend === "a") raw.blendMode = "additive";
+  if (blend === "n") raw.blendMode = "normal";
+
+  OPTION_FIELDS.forEach(([field, key]) => {
+    const value = params.get(key);
+    if (value !== null) raw[field] = value;
+  });
+
+  const negative = params.get(NEGATIVE_KEY);
+  if (negative) raw.negativeCenters = negative.split("").map((flag) => flag === "1");
+
+  const matrix = params.get(MATRIX_KEY);
+  if (matrix) {
+    const parts = matrix.split("x");
+    const [cols, rows, layers, spacing] = parts.slice(0, 4).map((part) => (part === "" ? NaN : Number(part)));
+    raw.matrix = { cols, rows, layers, spacing, layout: parts[4] };
+  }
+  const motions = params.get(MOTIONS_KEY);
+  if (motions) {
+    try {
+      raw.motions = JSON.parse(motions);
+    } catch {
+      // Leave motions at their defaults
+    }
+  }
+  const gradient = params.get(GRADIENT_KEY);
+  if (gradient) {
+    try {
+      raw.gradient = JSON.parse(gradient);
+    } catch {
+      // Keep the two-hue gradient
+    }
+  }
+  const curve = params.get(CURVE_KEY);
+  if (curve) {
+    try {
+      raw.curvePoints = JSON.parse(curve);
+    } catch {
+      // Keep the classic curve
+    }
+  }
+  const physics = params.get(PHYSICS_KEY);
+  if (physics) {
+    try {
+      raw.physics = JSON.parse(physics);
+    } catch {
+      // Leave physics off
+    }
+  }
+  const styles = params.get(CENTER_STYLES_KEY);
+  if (styles) {
+    try {
+      raw.centerStyles = JSON.parse(styles);
+    } catch {
+      // Leave center styles at their defaults
+    }
+  }
+  return sanitizeSceneSettings(raw);
+}
+
+export const readSceneFromLocation = (): SceneSettings | null =>
+  typeof window !== "undefined" && window.location.hash.length > 1
+    ? decodeSceneHash(window.location.hash)
+    : null;
+
+/**
+ * Replaces the current hash without adding a browser history entry.
+ */
+export function writeSceneToLocation(settings: SceneSettings) {
+  const hash = encodeSceneHash(settings);
+  const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ""}`;
+  window.history.replaceState(window.history.state, "", url);
+}
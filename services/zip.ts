@@ -0,0 +1,80 @@
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds an uncompressed (STORE) zip archive one file at a time. PNG data is already
+ * compressed, so deflating it again would only cost time. Each file's bytes are read once
+ * for its checksum and then only its Blob is kept, which the browser can hold outside the
+ * page's memory, so long frame sequences never pile up as buffers.
+ */
+export interface ZipWriter {
+  add(name: string, data: Blob): Promise<void>;
+  finish(): Blob;
+}
+
+export function createZipWriter(): ZipWriter {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let count = 0;
+  let offset = 0;
+
+  return {
+    async add(name, data) {
+      const fileName = encoder.encode(name);
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true);
+      local.setUint16(4, 20, true); // version needed
+      local.setUint16(8, 0, true); // method: store
+      local.setUint32(14, crc, true);
+      local.setUint32(18, data.size, true);
+      local.setUint32(22, data.size, true);
+      local.setUint16(26, fileName.length, true);
+      parts.push(local.buffer, fileName, data);
+
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true); // version made by
+      header.setUint16(6, 20, true); // version needed
+      header.setUint16(10, 0, true); // method: store
+      header.setUint32(16, crc, true);
+      header.setUint32(20, data.size, true);
+      header.setUint32(24, data.size, true);
+      header.setUint16(28, fileName.length, true);
+      header.setUint32(42, offset, true);
+      central.push(new Uint8Array(header.buffer), fileName);
+
+      count++;
+      offset += 30 + fileName.length + data.size;
+    },
+    finish() {
+      const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, count, true);
+      end.setUint16(10, count, true);
+      end.setUint32(12, centralSize, true);
+      end.setUint32(16, offset, true);
+      return new Blob([...parts, ...central, end.buffer], { type: "application/zip" });
+    },
+  };
+}
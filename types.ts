@@ -6,9 +6,166 @@ export interface SphereData {
   scale: number;
 }
 
+/**
+ * How the lattice fills its box: cubic grid, hexagonal close-packed, body-centered cubic,
+ * nested spherical shells, a Fibonacci sphere, a solid cylinder or torus, or a seeded
+ * Poisson-disk random fill.
+ */
+export type LatticeLayout = 'cubic' | 'hcp' | 'bcc' | 'shells' | 'fibonacci' | 'cylinder' | 'torus' | 'poisson';
+
 export interface MatrixConfig {
   rows: number;
   cols: number;
   layers: number;
   spacing: number;
+  layout: LatticeLayout;
+}
+
+export type BlendMode = 'normal' | 'additive';
+
+export type Primitive = 'sphere' | 'cube' | 'octahedron' | 'icosahedron' | 'capsule' | 'torus' | 'custom';
+
+/**
+ * How non-spherical instances turn: not at all, toward the nearest focal point, or along the field gradient.
+ */
+export type Orientation = 'fixed' | 'focal' | 'gradient';
+
+/**
+ * How the weighted distances to several focal points merge into one field value: nearest wins,
+ * smooth-min blending, metaball summation, a product of normalized distances, or positive
+ * centers minus those marked negative.
+ */
+export type CombineMode = 'min' | 'smooth' | 'additive' | 'multiply' | 'subtract';
+
+/**
+ * How far an instance is from a focal point: straight-line, city-block (diamonds), largest
+ * axis (cubes), distance to a line through the point (cylinders) or along one axis (planes).
+ */
+export type DistanceMetric = 'euclidean' | 'manhattan' | 'chebyshev' | 'cylindrical' | 'planar';
+
+export type Axis = 'x' | 'y' | 'z';
+
+export type CurveSegment = 'bezier' | 'linear' | 'step';
+
+/**
+ * One control point of a falloff curve, from a center (x 0) to the edge of its reach (x 1),
+ * levels 0-1. `segment` shapes the span up to the next point; for Bezier spans `handles`
+ * holds [x1, y1, x2, y2] with x as a fraction of the span, so the span never turns back.
+ */
+export interface CurvePoint {
+  x: number;
+  y: number;
+  segment: CurveSegment;
+  handles: [number, number, number, number];
+}
+
+/**
+ * Per-center look. A null curve or hue pair follows the global one; radius scales how far
+ * the center reaches and strength multiplies the scales it produces.
+ */
+export interface CenterStyle {
+  curve: CurvePoint[] | null;
+  hues: [number, number] | null;
+  radius: number;
+  strength: number;
+}
+
+/**
+ * One color stop of the tint gradient; hue in degrees, the rest 0-1.
+ */
+export interface GradientStop {
+  position: number;
+  hue: number;
+  saturation: number;
+  value: number;
+  alpha: number;
+}
+
+/**
+ * What places an instance along the gradient: its field distance, its current scale,
+ * its height in the lattice, or its order in the grid.
+ */
+export type GradientDriver = 'distance' | 'scale' | 'height' | 'index';
+
+export type Vec3 = [number, number, number];
+
+export type MotionKind = 'sine' | 'orbit' | 'figure8' | 'noise' | 'spline' | 'bounce';
+
+/**
+ * Motion model for one focal point. Params are keyed by the model's parameter specs;
+ * path holds the closed spline's waypoints in bounds-normalized coordinates (-1..1).
+ */
+export interface FocalMotion {
+  kind: MotionKind;
+  params: Record<string, number>;
+  path: Vec3[];
+}
+
+/**
+ * Bounce-house physics: every instance is a body on a spring to its lattice home. Focal points
+ * push bodies away (positive `force`) or pull them in (negative), scaled by `forceCurve` from
+ * a center (x 0) to the edge of its reach (x 1). `gravity` pulls down toward a floor that
+ * returns `bounce` of the impact speed.
+ */
+export interface PhysicsSettings {
+  /** Spring constant per unit mass (1/s²). */
+  stiffness: number;
+  /** Velocity lost per second. */
+  damping: number;
+  gravity: number;
+  bounce: number;
+  force: number;
+  forceCurve: CurvePoint[];
+}
+
+/**
+ * Every user-tunable sculpt parameter, as captured by presets.
+ */
+export interface SceneSettings {
+  p1x: number;
+  p1y: number;
+  p2x: number;
+  p2y: number;
+  curveStartY: number;
+  curveEndY: number;
+  /** Multi-point falloff curve; null uses the single Bezier above. */
+  curvePoints: CurvePoint[] | null;
+  minScale: number;
+  maxScale: number;
+  hue: number;
+  hue2: number;
+  /** Custom tint gradient; null uses the two hues above. */
+  gradient: GradientStop[] | null;
+  gradientDriver: GradientDriver;
+  speed: number;
+  engineCenters: number;
+  engineRandomness: number;
+  seed: number;
+  boundScale: number;
+  combineMode: CombineMode;
+  /** Smooth-min blend radius as a fraction of the field's reach. */
+  blendRadius: number;
+  /** Per engine center; only used by the subtractive combine mode. */
+  negativeCenters: boolean[];
+  centerStyles: CenterStyle[];
+  distanceMetric: DistanceMetric;
+  /** Line axis of the cylindrical metric and normal of the planar one. */
+  metricAxis: Axis;
+  /** Per-axis field reach; above 1 stretches the field along that axis. */
+  axisScaleX: number;
+  axisScaleY: number;
+  axisScaleZ: number;
+  blendMode: BlendMode;
+  primitive: Primitive;
+  orientation: Orientation;
+  /** Extra length along the orientation axis, proportional to the LUT scale. */
+  stretch: number;
+  opacity: number;
+  lineOpacity: number;
+  sphereSegments: number;
+  ambientIntensity: number;
+  matrix: MatrixConfig;
+  motions: FocalMotion[];
+  /** Bounce-house physics; null keeps every instance at its lattice home. */
+  physics: PhysicsSettings | null;
 }